@@ -0,0 +1,254 @@
+import type { AggregateResults, ObservationCounts } from '../core/aggregate.js';
+import { BASE_STYLES, escapeHtml } from './html.js';
+
+/**
+ * A results file in the combined report.
+ */
+export interface AggregateRun {
+  persona: string;
+  /** Path of the results file */
+  source: string;
+  /** Link to the persona's own report */
+  href: string;
+}
+
+const PROBLEM_TYPES = ['frustration', 'confusion', 'note'] as const;
+
+function countsTitle(counts: ObservationCounts): string {
+  return `${counts.success} success, ${counts.note} note, ${counts.confusion} confusion, ${counts.frustration} frustration`;
+}
+
+/**
+ * "3 personas", adding the number of runs when a persona was run more than once.
+ */
+export function personasLabel(personas: number, runs: number): string {
+  return `${personas} ${personas === 1 ? 'persona' : 'personas'}${runs > personas ? ` (${runs} runs)` : ''}`;
+}
+
+/**
+ * Matrix cell: the number of problems, colored by the worst type raised.
+ */
+function matrixCellHtml(counts: ObservationCounts | undefined): string {
+  if (!counts) return '<td></td>';
+  const problems = counts.note + counts.confusion + counts.frustration;
+  if (problems === 0 && counts.success === 0) return '<td class="matrix-empty">—</td>';
+
+  const worst = PROBLEM_TYPES.find((type) => counts[type] > 0) ?? 'success';
+  return `<td title="${countsTitle(counts)}"><span class="badge badge--${worst}">${
+    problems > 0 ? problems : '✓'
+  }</span></td>`;
+}
+
+/**
+ * Build the combined report for several persona runs, linking to each
+ * persona's own report.
+ *
+ * @param aggregate - Output of `aggregateResults`, in the same order as `runs`
+ * @param runs - The results files and their report pages
+ */
+export function generateAggregateHtml(aggregate: AggregateResults, runs: AggregateRun[]): string {
+  const personaLink = (index: number) => {
+    const run = runs[index];
+    return run ? `<a href="${escapeHtml(run.href)}">${escapeHtml(run.persona)}</a>` : '';
+  };
+
+  const personasHtml = aggregate.personas
+    .map((summary, index) => {
+      const rate = summary.tasksTotal
+        ? Math.round((summary.tasksPassed / summary.tasksTotal) * 100)
+        : 0;
+      return `
+        <tr>
+          <td>${personaLink(index)}<div class="source">${escapeHtml(runs[index]?.source ?? '')}</div></td>
+          <td>
+            <div class="rate">
+              <div class="rate-bar"><div class="rate-fill" style="width: ${rate}%"></div></div>
+              <span>${summary.tasksPassed}/${summary.tasksTotal} (${rate}%)</span>
+            </div>
+          </td>
+          ${(['success', ...PROBLEM_TYPES] as const)
+            .map((type) => `<td><span class="badge badge--${type}">${summary.observations[type]}</span></td>`)
+            .join('')}
+        </tr>`;
+    })
+    .join('');
+
+  const matrixHtml = aggregate.pages
+    .map(
+      (row) => `
+        <tr>
+          <th scope="row">${escapeHtml(row.page)}</th>
+          ${row.counts.map(matrixCellHtml).join('')}
+        </tr>`
+    )
+    .join('');
+
+  const sharedHtml = aggregate.sharedIssues.length
+    ? aggregate.sharedIssues
+        .map(
+          (issue) => `
+      <div class="card">
+        <div class="shared-header">
+          <strong>${personasLabel(issue.personas.length, issue.observations.length)}</strong>
+          ${issue.severity ? `<span class="severity">${issue.severity}</span>` : ''}
+        </div>
+        <ul class="shared-list">
+          ${issue.observations
+            .map(
+              ({ run, observation }) => `
+          <li>
+            <span class="badge badge--${observation.type}">${observation.type}</span>
+            ${personaLink(run)}: ${escapeHtml(observation.description)}
+            <span class="location">${escapeHtml(observation.location)}</span>
+          </li>`
+            )
+            .join('')}
+        </ul>
+      </div>`
+        )
+        .join('')
+    : '<p class="empty">No problem was raised by more than one persona.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>PersonaSpec Report: ${personasLabel(new Set(runs.map((run) => run.persona)).size, runs.length)}</title>
+  <style>${BASE_STYLES}
+    a {
+      color: var(--accent-primary);
+      text-decoration: none;
+    }
+
+    .table-wrap {
+      overflow-x: auto;
+    }
+
+    .overview-table {
+      width: 100%;
+      border-collapse: collapse;
+      background: var(--bg-surface);
+      border: 1px solid var(--border-subtle);
+      border-radius: 12px;
+    }
+
+    .overview-table th,
+    .overview-table td {
+      padding: 0.5rem 1rem;
+      text-align: left;
+      border-bottom: 1px solid var(--border-subtle);
+      vertical-align: top;
+    }
+
+    .overview-table thead th {
+      font-size: 0.75rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--text-muted);
+    }
+
+    .overview-table tbody th {
+      font-weight: 400;
+      color: var(--text-secondary);
+      font-family: monospace;
+      font-size: 0.875rem;
+    }
+
+    .matrix-empty {
+      color: var(--text-muted);
+    }
+
+    .source,
+    .location {
+      font-size: 0.75rem;
+      color: var(--text-muted);
+    }
+
+    .rate {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      white-space: nowrap;
+    }
+
+    .rate-bar {
+      width: 120px;
+      height: 8px;
+      background: var(--bg-elevated);
+      border-radius: 4px;
+      overflow: hidden;
+    }
+
+    .rate-fill {
+      height: 100%;
+      background: var(--accent-success);
+    }
+
+    .shared-header {
+      display: flex;
+      gap: 1rem;
+      align-items: center;
+      margin-bottom: 0.5rem;
+    }
+
+    .severity {
+      color: var(--text-muted);
+      font-size: 0.875rem;
+    }
+
+    .shared-list {
+      list-style: none;
+    }
+
+    .shared-list li {
+      padding: 0.375rem 0;
+      color: var(--text-secondary);
+    }
+
+    .empty {
+      color: var(--text-muted);
+    }
+
+    @media (max-width: 768px) {
+      body {
+        padding: 1rem;
+      }
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>Persona Overview</h1>
+    <p class="subtitle">${runs.length} results files combined</p>
+
+    <h2>Personas</h2>
+    <div class="table-wrap">
+      <table class="overview-table">
+        <thead>
+          <tr><th>Persona</th><th>Tasks passed</th><th>Success</th><th>Frustration</th><th>Confusion</th><th>Note</th></tr>
+        </thead>
+        <tbody>${personasHtml}</tbody>
+      </table>
+    </div>
+
+    <h2>Problems by Page</h2>
+    <div class="table-wrap">
+      <table class="overview-table">
+        <thead>
+          <tr><th>Page</th>${runs.map((_, index) => `<th>${personaLink(index)}</th>`).join('')}</tr>
+        </thead>
+        <tbody>${matrixHtml}</tbody>
+      </table>
+    </div>
+
+    <h2>Shared Issues</h2>
+    ${sharedHtml}
+
+    <div class="footer">
+      Generated by <a href="https://personaspec.dev">PersonaSpec</a> on ${new Date().toLocaleString()}
+    </div>
+  </div>
+</body>
+</html>`;
+}
@@ -1,206 +1,644 @@
 import { Command } from 'commander';
 import * as fs from 'node:fs/promises';
-import type { PersonaTestResults } from '../../core/types.js';
-
-interface MessageContent {
-  type: 'text' | 'image';
-  text?: string;
-  source?: {
-    type: 'base64';
-    media_type: string;
-    data: string;
+import * as path from 'node:path';
+import {
+  ANALYSIS_OUTPUT_FORMAT,
+  applyAnalysis,
+  BATCH_OUTPUT_FORMAT,
+  combineBatchOutputs,
+  DEFAULT_BATCH_LIMITS,
+  FINDING_CATEGORY_LABELS,
+  formatAnalysisMarkdown,
+  parseAnalysisOutput,
+  parseBatchOutput,
+  parseSummaryOutput,
+  planAnalysisBatches,
+  SUMMARY_OUTPUT_FORMAT,
+  type AnalysisOutput,
+  type BatchAnalysisOutput,
+  type ParsedAnalysisOutput,
+} from '../../core/analysis.js';
+import {
+  AnalysisProviderError,
+  createAnalysisProvider,
+  createCachedProvider,
+  createReplayProvider,
+  DEFAULT_ANALYSIS_CACHE_DIR,
+  DEFAULT_ANALYSIS_MODELS,
+  type AnalysisContent,
+  type AnalysisOutputFormat,
+  type AnalysisProvider,
+  type AnalysisProviderName,
+  type AnalysisResponse,
+} from '../../core/analysisProvider.js';
+import { describePersonaEnvironment } from '../../core/helpers.js';
+import {
+  formatSessionErrorGroup,
+  groupSessionErrors,
+  SESSION_ERROR_LABELS,
+  type SessionErrorGroup,
+} from '../../core/errors.js';
+import {
+  ANALYSIS_IMAGE_BUDGET,
+  formatImageReduction,
+  readPreparedImage,
+  type PreparedImage,
+} from '../../core/image.js';
+import { formatSignalEvidence, SIGNAL_LABELS } from '../../core/signals.js';
+import { formatTimeline } from '../../core/timeline.js';
+import type { Observation, PersonaTestResults, Screenshot, TaskResult, TimelineEvent } from '../../core/types.js';
+import { loadResultsOrExit } from '../loadResults.js';
+
+/**
+ * Most timeline events to send; long sessions are cut off after this.
+ */
+const MAX_TIMELINE_EVENTS = 400;
+
+/**
+ * Most tokens the model may write per request.
+ */
+const MAX_TOKENS = 4096;
+
+/**
+ * Environment variable holding the API key for each provider.
+ */
+const API_KEY_VARIABLES: Record<AnalysisProviderName, string> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+};
+
+/**
+ * How to check each kind of structured output, by format name.
+ */
+const OUTPUT_PARSERS = new Map<string, (response: AnalysisResponse) => ParsedAnalysisOutput<unknown>>([
+  [ANALYSIS_OUTPUT_FORMAT.name, parseAnalysisOutput],
+  [BATCH_OUTPUT_FORMAT.name, parseBatchOutput],
+  [SUMMARY_OUTPUT_FORMAT.name, parseSummaryOutput],
+]);
+
+/**
+ * Read and prepare a screenshot's image for the model, or undefined to leave it out.
+ */
+type ImageLoader = (screenshot: Screenshot) => Promise<PreparedImage | undefined>;
+
+/**
+ * The part of the session one request covers: all of it, or one batch.
+ */
+interface PromptScope {
+  screenshots: Screenshot[];
+  tasks: TaskResult[];
+  observations: Observation[];
+  timeline: TimelineEvent[];
+  errorGroups: SessionErrorGroup[];
+}
+
+function personaPrompt(results: PersonaTestResults): string {
+  return `## The Persona
+
+**Name:** ${results.persona}
+**Background:** ${results.background}
+**Goals:** ${results.goals.join(', ')}
+**Behaviors:** ${results.behaviors.join(', ')}${
+    results.environment ? `\n**Environment:** ${describePersonaEnvironment(results.environment).join('; ')}` : ''
+  }`;
+}
+
+/**
+ * System prompt for analyzing screenshots: the whole session, or one part
+ * of it when `part` is given.
+ */
+function screenshotSystemPrompt(results: PersonaTestResults, part?: { index: number; count: number }): string {
+  const outputFormat = part
+    ? `This is part ${part.index} of ${part.count} of the session. Record your analysis with the ${BATCH_OUTPUT_FORMAT.name} output, including:
+1. Findings for each screenshot, by its ID, each with a category, a severity and a recommendation for problems
+2. Notes on what happened in this part of the journey and how it went for the persona
+
+A final pass combines the notes and findings of every part into the overall score and recommendations, so describe anything that matters for them in your notes.`
+    : `Record your analysis with the ${ANALYSIS_OUTPUT_FORMAT.name} output, including:
+1. An executive summary (2-3 sentences)
+2. Findings for each screenshot, by its ID, each with a category, a severity and a recommendation for problems
+3. Prioritized recommendations (critical / important / niceToHave)
+4. Overall score (A/B/C/D/F, optionally with + or -) with justification, strengths and areas for improvement`;
+
+  return `You are a UX analyst reviewing screenshots from a persona-driven user journey test.
+
+${personaPrompt(results)}
+
+## Your Task
+
+Analyze each screenshot from the perspective of this specific persona. Consider their background, goals, and typical behaviors when identifying issues.
+
+For each screenshot, identify:
+1. **UX Issues** - Things that would frustrate or confuse this persona specifically
+2. **Accessibility Problems** - Visual accessibility issues (contrast, text size, etc.)
+3. **Design Inconsistencies** - Layout, spacing, or styling issues
+4. **Goal Achievement** - Whether the persona could accomplish their goals from this screen
+5. **Specific Recommendations** - Concrete, actionable improvements
+
+Use the session timeline to follow the journey: what the persona did before and after each screenshot, and where things started to go wrong.
+
+If the session recorded errors, connect visual problems (missing content, endless spinners, broken layouts) to the failed requests or exceptions that likely caused them.
+
+Some observations were raised automatically from the persona's behavior (rage clicks, dead clicks, back/forward thrashing, long pauses, repeated searches). Use the screenshots to explain what on the page most likely provoked them.
+
+## Output Format
+
+${outputFormat}`;
+}
+
+/**
+ * Build the user message for a scope: its screenshots with their context,
+ * then the timeline, tasks, observations and errors that go with them.
+ */
+async function scopeContent(
+  results: PersonaTestResults,
+  scope: PromptScope,
+  loadImage: ImageLoader,
+  intro: string
+): Promise<AnalysisContent[]> {
+  const content: AnalysisContent[] = [{ type: 'text', text: intro }];
+
+  const taskNames = new Map(results.tasks.map((t) => [t.id, t.name]));
+  const formatObservation = (o: Observation) =>
+    `- **[${o.type.toUpperCase()}]** ${o.description} (at ${o.location})${
+      o.evidence
+        ? ` [detected ${SIGNAL_LABELS[o.evidence.signal].toLowerCase()}: ${formatSignalEvidence(o.evidence)}]`
+        : ''
+    }${o.screenshotIds?.length ? ` [evidence: ${o.screenshotIds.join(', ')}]` : ''}`;
+  const formatErrorGroup = (group: SessionErrorGroup) =>
+    `- **[${SESSION_ERROR_LABELS[group.error.kind]}]** ${formatSessionErrorGroup(group)}${
+      group.pageUrls.length ? ` (on ${group.pageUrls.join(', ')})` : ''
+    }`;
+
+  for (const screenshot of scope.screenshots) {
+    const image = await loadImage(screenshot);
+    if (image) {
+      content.push({
+        type: 'image',
+        mediaType: image.mediaType,
+        data: image.data.toString('base64'),
+      });
+      content.push({
+        type: 'text',
+        text: `\n**Screenshot: "${screenshot.name}"** (ID: ${screenshot.id})\nContext: ${screenshot.context}\nURL: ${screenshot.url}\n${
+          screenshot.taskId ? `Task: ${taskNames.get(screenshot.taskId) ?? screenshot.taskId}\n` : ''
+        }${
+          screenshot.annotations?.length
+            ? `Outlined elements: ${screenshot.annotations.map((a) => a.label).filter(Boolean).join(', ')}\n`
+            : ''
+        }\n`,
+      });
+    }
+  }
+
+  // Add the journey in order so screenshots are seen in context
+  if (scope.timeline.length) {
+    content.push({
+      type: 'text',
+      text: `\n## Session Timeline\n\nEverything the persona did and ran into, in order (time since the session started; IDs refer to the screenshots, observations and tasks):\n\n${formatTimeline(
+        scope.timeline,
+        results.session.startTime,
+        MAX_TIMELINE_EVENTS
+      ).join('\n')}`,
+    });
+  }
+
+  // Add task results, each with the evidence recorded while it ran
+  if (scope.tasks.length > 0) {
+    content.push({
+      type: 'text',
+      text: `\n## Task Results\n\n${scope.tasks
+        .map((t) => {
+          const observations = scope.observations.filter((o) => o.taskId === t.id);
+          const screenshots = scope.screenshots.filter((ss) => ss.taskId === t.id);
+          const errors = scope.errorGroups.filter((g) => g.taskIds.includes(t.id));
+          return [
+            `### ${t.success ? '✓' : '✗'} ${t.name} (${(t.duration / 1000).toFixed(1)}s${
+              t.outcome === 'abandoned' ? ', abandoned' : ''
+            })`,
+            t.failure
+              ? `Failure (${t.failure.reason}${t.failure.step ? ` in step "${t.failure.step}"` : ''}): ${t.failure.message}`
+              : '',
+            t.steps?.length
+              ? `Steps: ${t.steps
+                  .map((step) => `${step.name} ${(step.duration / 1000).toFixed(1)}s${step.success ? '' : ' ✗'}`)
+                  .join(' → ')}`
+              : '',
+            t.notes,
+            screenshots.length ? `Screenshots: ${screenshots.map((ss) => `"${ss.name}" (${ss.id})`).join(', ')}` : '',
+            ...observations.map(formatObservation),
+            ...errors.map(formatErrorGroup),
+          ]
+            .filter(Boolean)
+            .join('\n');
+        })
+        .join('\n\n')}`,
+    });
+  }
+
+  // Add observations not tied to a task
+  const untaskedObservations = scope.observations.filter((o) => !o.taskId);
+  if (scope.observations.length > 0) {
+    content.push({
+      type: 'text',
+      text: `\n## Observations Already Captured During Testing\n\nThe automated tests already identified the observations listed under each task above${
+        untaskedObservations.length > 0
+          ? `, plus these recorded outside any task:\n\n${untaskedObservations.map(formatObservation).join('\n')}`
+          : '.'
+      }\n\nPlease validate these observations and identify anything they may have missed.`,
+    });
+  }
+
+  // Add browser errors so the model can tie visual problems to failures
+  if (scope.errorGroups.length > 0) {
+    content.push({
+      type: 'text',
+      text: `\n## Errors During the Session\n\nConsole errors, uncaught exceptions and failed network requests recorded while the persona browsed (errors during a task are also listed under it above):\n\n${scope.errorGroups
+        .map(formatErrorGroup)
+        .join('\n')}`,
+    });
+  }
+
+  return content;
+}
+
+/**
+ * The part of the session that goes with one batch of screenshots: events
+ * since the previous batch's last screenshot, and the tasks, observations
+ * and errors tied to the batch's screenshots or to those events.
+ *
+ * @param previous - Last screenshot of the previous batch
+ * @param isLast - Whether this is the last batch, which runs to the end of the session
+ */
+function batchScope(
+  results: PersonaTestResults,
+  batch: Screenshot[],
+  errorGroups: SessionErrorGroup[],
+  previous: Screenshot | undefined,
+  isLast: boolean
+): PromptScope {
+  const from = previous ? Date.parse(previous.timestamp) : -Infinity;
+  const to = isLast ? Infinity : Date.parse(batch.at(-1)?.timestamp ?? '');
+  const inWindow = (timestamp: string) => {
+    const time = Date.parse(timestamp);
+    return time > from && time <= to;
+  };
+
+  const timeline = (results.timeline ?? []).filter((event) => inWindow(event.timestamp));
+  const screenshotIds = new Set(batch.map((ss) => ss.id));
+  const urls = new Set(batch.map((ss) => ss.url));
+  const taskIds = new Set(
+    [...batch.map((ss) => ss.taskId), ...timeline.map((event) => event.taskId)].filter(
+      (id): id is string => Boolean(id)
+    )
+  );
+
+  return {
+    screenshots: batch,
+    tasks: results.tasks.filter((t) => taskIds.has(t.id)),
+    observations: results.observations.filter(
+      (o) =>
+        o.screenshotIds?.some((id) => screenshotIds.has(id)) ||
+        (o.taskId ? taskIds.has(o.taskId) : inWindow(o.timestamp))
+    ),
+    timeline,
+    errorGroups: errorGroups.filter(
+      (g) => g.taskIds.some((id) => taskIds.has(id)) || g.pageUrls.some((url) => urls.has(url))
+    ),
   };
 }
 
-interface ApiResponse {
-  content: Array<{ type: string; text: string }>;
-  error?: { message: string };
+/**
+ * Send a request and check its structured output. If the output doesn't
+ * match, report the problems, save the raw reply and exit.
+ */
+async function requestOutput<T>(
+  provider: AnalysisProvider,
+  request: { model: string; system: string; content: AnalysisContent[]; output: AnalysisOutputFormat },
+  parse: (response: AnalysisResponse) => ParsedAnalysisOutput<T>,
+  rawOutputPath: string,
+  label: string
+): Promise<{ output: T; model?: string }> {
+  const response = await provider.analyze({ ...request, maxTokens: MAX_TOKENS });
+  if (response.cached) {
+    console.log(`  Using cached response for the ${label}`);
+  }
+  const parsed = parse(response);
+  if (parsed.issues) {
+    // Keep the reply so the tokens aren't wasted
+    await fs.writeFile(rawOutputPath, response.text);
+    console.error(`Error: The ${label} did not match the expected format:`);
+    for (const issue of parsed.issues) {
+      console.error(`  ${issue.path}: ${issue.message}`);
+    }
+    console.error(`The raw response was saved to: ${rawOutputPath}`);
+    if (response.cached) {
+      console.error('Hint: This response came from the cache. Run again with --no-cache to ask the model again.');
+    }
+    process.exit(1);
+  }
+  return { output: parsed.output, model: response.model };
+}
+
+/**
+ * Analyze screenshots batch by batch, then combine the batch findings into
+ * one summary in a text-only pass.
+ */
+async function analyzeInBatches(
+  provider: AnalysisProvider,
+  model: string,
+  results: PersonaTestResults,
+  batches: Screenshot[][],
+  loadImage: ImageLoader,
+  rawOutputPath: string
+): Promise<{ output: AnalysisOutput; model?: string }> {
+  const errorGroups = groupSessionErrors(results.session.errors ?? []);
+  const batchOutputs: BatchAnalysisOutput[] = [];
+
+  for (const [index, batch] of batches.entries()) {
+    const part = { index: index + 1, count: batches.length };
+    console.log(`  Batch ${part.index}/${part.count}: ${batch.length} screenshots`);
+
+    const scope = batchScope(results, batch, errorGroups, batches[index - 1]?.at(-1), index === batches.length - 1);
+    const { output } = await requestOutput(
+      provider,
+      {
+        model,
+        system: screenshotSystemPrompt(results, part),
+        content: await scopeContent(
+          results,
+          scope,
+          loadImage,
+          `This is part ${part.index} of ${part.count} of a persona-driven test session. I have ${batch.length} screenshots from this part. Please analyze each one from the perspective of the persona described in your instructions.\n\n`
+        ),
+        output: BATCH_OUTPUT_FORMAT,
+      },
+      parseBatchOutput,
+      rawOutputPath,
+      `analysis of batch ${part.index}`
+    );
+    batchOutputs.push(output);
+  }
+
+  console.log('  Combining batch findings...');
+  const screenshotNames = new Map(results.screenshots.map((ss) => [ss.id, ss.name]));
+  const batchesText = batchOutputs
+    .map((output, index) =>
+      [
+        `### Part ${index + 1}: ${(batches[index] ?? []).map((ss) => `"${ss.name}"`).join(', ')}`,
+        '',
+        output.notes,
+        '',
+        ...output.screenshots.flatMap((entry) =>
+          entry.findings.map(
+            (f) =>
+              `- [${f.severity}] ${FINDING_CATEGORY_LABELS[f.category]}: ${f.description} (on "${
+                screenshotNames.get(entry.screenshotId) ?? entry.screenshotId
+              }")`
+          )
+        ),
+      ].join('\n')
+    )
+    .join('\n\n');
+
+  const tasksText = results.tasks
+    .map((t) => `- ${t.success ? '✓' : '✗'} ${t.name}${t.failure ? `: ${t.failure.message}` : ''}`)
+    .join('\n');
+
+  const { output: summary, model: answeredBy } = await requestOutput(
+    provider,
+    {
+      model,
+      system: `You are a UX analyst summarizing a persona-driven user journey test.
+
+${personaPrompt(results)}
+
+## Your Task
+
+The session's screenshots were analyzed in ${batches.length} parts, in order. Combine the notes and findings of every part into one assessment of the whole journey from this persona's perspective. Problems that recur across parts weigh more than one-off ones.
+
+## Output Format
+
+Record your assessment with the ${SUMMARY_OUTPUT_FORMAT.name} output, including:
+1. An executive summary (2-3 sentences)
+2. Prioritized recommendations (critical / important / niceToHave)
+3. Overall score (A/B/C/D/F, optionally with + or -) with justification, strengths and areas for improvement`,
+      content: [
+        {
+          type: 'text',
+          text: `## Findings by Part\n\n${batchesText}${tasksText ? `\n\n## Task Results\n\n${tasksText}` : ''}`,
+        },
+      ],
+      output: SUMMARY_OUTPUT_FORMAT,
+    },
+    parseSummaryOutput,
+    rawOutputPath,
+    'combined analysis'
+  );
+
+  return { output: combineBatchOutputs(batchOutputs, summary), model: answeredBy };
 }
 
 export const analyzeCommand = new Command('analyze')
-  .description('Analyze test results with Claude AI vision')
+  .description('Analyze test results with an AI vision model and save the summary to the results file')
   .argument('<results>', 'Path to results JSON file')
-  .option('-k, --api-key <key>', 'Anthropic API key (or set ANTHROPIC_API_KEY env var)')
+  .option('-k, --api-key <key>', 'API key (or set ANTHROPIC_API_KEY / OPENAI_API_KEY)')
   .option('-o, --output <file>', 'Output file for analysis', 'analysis-report.md')
-  .option('--model <model>', 'Claude model to use', 'claude-sonnet-4-20250514')
-  .option('--max-screenshots <n>', 'Maximum screenshots to include', '10')
+  .option('--provider <name>', 'API the endpoint speaks: anthropic or openai', 'anthropic')
+  .option('--base-url <url>', 'Endpoint root, for a gateway, proxy or mock server')
+  .option(
+    '--model <model>',
+    `Model to use (default: ${DEFAULT_ANALYSIS_MODELS.anthropic}, or ${DEFAULT_ANALYSIS_MODELS.openai} for openai)`
+  )
+  .option('--max-screenshots <n>', 'Analyze only the first n screenshots (default: all)')
+  .option(
+    '--batch-size <n>',
+    'Most screenshots per request; more are analyzed in batches and combined',
+    String(DEFAULT_BATCH_LIMITS.maxImages)
+  )
+  .option(
+    '--image-max-bytes <n>',
+    'Largest image to send, in bytes; bigger images are re-encoded and scaled down',
+    String(ANALYSIS_IMAGE_BUDGET.maxBytes)
+  )
+  .option(
+    '--image-max-pixels <n>',
+    'Largest image area to send, in pixels; bigger images are scaled down',
+    String(ANALYSIS_IMAGE_BUDGET.maxPixels)
+  )
+  .option('--crop-to-annotations', 'Send only the area around the outlined elements of annotated screenshots')
+  .option('--retries <n>', 'Retries after rate limits, overload and server errors', '3')
+  .option('--no-cache', 'Ask the model again even if an identical request is cached')
+  .option('--cache-dir <dir>', 'Where to cache responses', DEFAULT_ANALYSIS_CACHE_DIR)
+  .option('--record <dir>', 'Save each response to this directory for later replay')
+  .option('--replay <dir>', 'Serve responses recorded with --record instead of calling the API')
   .action(
     async (
       resultsPath: string,
       options: {
         apiKey?: string;
         output: string;
-        model: string;
-        maxScreenshots: string;
+        provider: string;
+        baseUrl?: string;
+        model?: string;
+        maxScreenshots?: string;
+        batchSize: string;
+        imageMaxBytes: string;
+        imageMaxPixels: string;
+        cropToAnnotations?: boolean;
+        record?: string;
+        retries: string;
+        cache: boolean;
+        cacheDir: string;
+        replay?: string;
       }
     ) => {
-      const apiKey = options.apiKey || process.env.ANTHROPIC_API_KEY;
+      if (!(options.provider in DEFAULT_ANALYSIS_MODELS)) {
+        console.error(`Error: Unknown provider "${options.provider}". Use anthropic or openai.`);
+        process.exit(1);
+      }
+      const providerName = options.provider as AnalysisProviderName;
+      const keyVariable = API_KEY_VARIABLES[providerName];
+      const apiKey = options.apiKey || process.env[keyVariable];
 
-      if (!apiKey) {
-        console.error('Error: Anthropic API key required.');
+      // Gateways and mock servers may not need a key; replay never does
+      if (!apiKey && !options.baseUrl && !options.replay) {
+        console.error(`Error: ${providerName === 'openai' ? 'OpenAI' : 'Anthropic'} API key required.`);
         console.error('');
-        console.error('Set the ANTHROPIC_API_KEY environment variable:');
-        console.error('  export ANTHROPIC_API_KEY=sk-ant-...');
+        console.error(`Set the ${keyVariable} environment variable:`);
+        console.error(`  export ${keyVariable}=${providerName === 'openai' ? 'sk-' : 'sk-ant-'}...`);
         console.error('');
         console.error('Or use the --api-key flag:');
         console.error('  npx personaspec analyze results.json --api-key sk-ant-...');
         process.exit(1);
       }
 
-      console.log(`Loading results from ${resultsPath}...`);
-
-      let results: PersonaTestResults;
-      try {
-        const content = await fs.readFile(resultsPath, 'utf-8');
-        results = JSON.parse(content);
-      } catch (error) {
-        if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-          console.error(`Error: File not found: ${resultsPath}`);
-        } else if (error instanceof SyntaxError) {
-          console.error(`Error: Invalid JSON in ${resultsPath}`);
-        } else {
-          console.error(`Error reading results file: ${error}`);
+      const numbers = {
+        '--batch-size': options.batchSize,
+        '--image-max-bytes': options.imageMaxBytes,
+        '--image-max-pixels': options.imageMaxPixels,
+        ...(options.maxScreenshots !== undefined && { '--max-screenshots': options.maxScreenshots }),
+      };
+      for (const [flag, value] of Object.entries(numbers)) {
+        if (!(parseInt(value, 10) > 0)) {
+          console.error(`Error: ${flag} must be a positive number, got "${value}".`);
+          process.exit(1);
         }
-        process.exit(1);
       }
-
-      // Validate results
-      if (!results.persona || !results.screenshots) {
-        console.error('Error: Invalid PersonaSpec results file format');
+      const batchSize = parseInt(options.batchSize, 10);
+      const retries = parseInt(options.retries, 10);
+      if (!(retries >= 0)) {
+        console.error(`Error: --retries must be 0 or more, got "${options.retries}".`);
         process.exit(1);
       }
 
-      const maxScreenshots = parseInt(options.maxScreenshots, 10);
-      const screenshotsToAnalyze = results.screenshots.slice(0, maxScreenshots);
-
-      console.log(`Analyzing ${screenshotsToAnalyze.length} screenshots for persona: ${results.persona}`);
-
-      // Build the system prompt with persona context
-      const systemPrompt = `You are a UX analyst reviewing screenshots from a persona-driven user journey test.
-
-## The Persona
-
-**Name:** ${results.persona}
-**Background:** ${results.background}
-**Goals:** ${results.goals.join(', ')}
-**Behaviors:** ${results.behaviors.join(', ')}
-
-## Your Task
-
-Analyze each screenshot from the perspective of this specific persona. Consider their background, goals, and typical behaviors when identifying issues.
-
-For each screenshot, identify:
-1. **UX Issues** - Things that would frustrate or confuse this persona specifically
-2. **Accessibility Problems** - Visual accessibility issues (contrast, text size, etc.)
-3. **Design Inconsistencies** - Layout, spacing, or styling issues
-4. **Goal Achievement** - Whether the persona could accomplish their goals from this screen
-5. **Specific Recommendations** - Concrete, actionable improvements
-
-## Output Format
-
-Structure your analysis as markdown with:
-1. An executive summary (2-3 sentences)
-2. Analysis of each screenshot
-3. Prioritized recommendations (Critical / Important / Nice-to-have)
-4. Overall score (A/B/C/D/F) with justification`;
-
-      // Build message content with images
-      const messageContent: MessageContent[] = [
-        {
-          type: 'text',
-          text: `I have ${screenshotsToAnalyze.length} screenshots from a persona-driven test session. Please analyze each one from the perspective of the persona described in your instructions.\n\n`,
+      const model = options.model ?? DEFAULT_ANALYSIS_MODELS[providerName];
+      let provider: AnalysisProvider = createAnalysisProvider(providerName, {
+        apiKey,
+        baseUrl: options.baseUrl,
+        retries,
+        onRetry: ({ attempt, maxAttempts, delayMs, status, message }) => {
+          console.warn(
+            `  ${status ? `${status}: ` : ''}${message}. Retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${
+              attempt + 1
+            } of ${maxAttempts})...`
+          );
         },
-      ];
-
-      for (const screenshot of screenshotsToAnalyze) {
-        if (screenshot.base64) {
-          messageContent.push({
-            type: 'image',
-            source: {
-              type: 'base64',
-              media_type: 'image/png',
-              data: screenshot.base64,
-            },
-          });
-          messageContent.push({
-            type: 'text',
-            text: `\n**Screenshot: "${screenshot.name}"**\nContext: ${screenshot.context}\nURL: ${screenshot.url}\n\n`,
-          });
-        }
-      }
-
-      // Add existing observations for context
-      if (results.observations.length > 0) {
-        messageContent.push({
-          type: 'text',
-          text: `\n## Observations Already Captured During Testing\n\nThe automated tests already identified these observations:\n\n${results.observations
-            .map((o) => `- **[${o.type.toUpperCase()}]** ${o.description} (at ${o.location})`)
-            .join('\n')}\n\nPlease validate these observations and identify anything they may have missed.`,
+      });
+      // Recordings are their own cache, so the cache only wraps live calls
+      if (options.replay) {
+        provider = createReplayProvider(options.replay);
+      } else if (options.record) {
+        provider = createReplayProvider(options.record, { record: provider });
+      } else {
+        provider = createCachedProvider(provider, options.cacheDir, {
+          refresh: !options.cache,
+          // A reply that doesn't match the format would fail every rerun
+          accept: (request, response) =>
+            !request.output || !OUTPUT_PARSERS.get(request.output.name)?.(response).issues,
         });
       }
 
-      // Add task results
-      if (results.tasks.length > 0) {
-        messageContent.push({
-          type: 'text',
-          text: `\n## Task Results\n\n${results.tasks
-            .map((t) => `- ${t.success ? '✓' : '✗'} **${t.name}** (${(t.duration / 1000).toFixed(1)}s) - ${t.notes}`)
-            .join('\n')}`,
-        });
-      }
-
-      console.log('Sending to Claude for analysis...');
-      console.log(`  Model: ${options.model}`);
-      console.log(`  Screenshots: ${screenshotsToAnalyze.length}`);
-
-      try {
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': apiKey,
-            'anthropic-version': '2023-06-01',
-          },
-          body: JSON.stringify({
-            model: options.model,
-            max_tokens: 4096,
-            system: systemPrompt,
-            messages: [{ role: 'user', content: messageContent }],
-          }),
-        });
-
-        if (!response.ok) {
-          const errorBody = await response.text();
-          let errorMessage = `API request failed with status ${response.status}`;
-
-          try {
-            const errorJson = JSON.parse(errorBody);
-            if (errorJson.error?.message) {
-              errorMessage = errorJson.error.message;
-            }
-          } catch {
-            // Use default error message
-          }
+      console.log(`Loading results from ${resultsPath}...`);
 
-          console.error(`Error: ${errorMessage}`);
+      const results = await loadResultsOrExit(resultsPath);
 
-          if (response.status === 401) {
-            console.error('Hint: Check that your API key is valid and has not expired.');
-          } else if (response.status === 429) {
-            console.error('Hint: You may have hit rate limits. Try again in a few seconds.');
-          }
+      // Baseline diff images show what changed, not a page the persona saw
+      const screenshots = results.screenshots.filter((ss) => !ss.diffOf);
+      const maxScreenshots = options.maxScreenshots ? parseInt(options.maxScreenshots, 10) : Infinity;
+      const screenshotsToAnalyze = screenshots.slice(0, maxScreenshots);
+      if (screenshotsToAnalyze.length < screenshots.length) {
+        console.warn(
+          `Warning: Skipping ${screenshots.length - screenshotsToAnalyze.length} screenshots after the first ${maxScreenshots} (--max-screenshots)`
+        );
+      }
 
-          process.exit(1);
+      const batches = planAnalysisBatches(screenshotsToAnalyze, { ...DEFAULT_BATCH_LIMITS, maxImages: batchSize });
+      const resultsDir = path.dirname(resultsPath);
+      const imageBudget = {
+        ...ANALYSIS_IMAGE_BUDGET,
+        maxBytes: parseInt(options.imageMaxBytes, 10),
+        maxPixels: parseInt(options.imageMaxPixels, 10),
+      };
+      const loadImage: ImageLoader = async (screenshot) => {
+        const image = await readPreparedImage(screenshot, resultsDir, {
+          budget: imageBudget,
+          crop: options.cropToAnnotations,
+        });
+        if (image === 'missing') return undefined;
+        if (image === 'unsupported') {
+          console.warn(`  Skipping "${screenshot.name}": not a PNG or JPEG image`);
+          return undefined;
         }
+        const reduction = formatImageReduction(image);
+        if (reduction) console.log(`  Image "${screenshot.name}": ${reduction}`);
+        return image;
+      };
 
-        const result = (await response.json()) as ApiResponse;
+      console.log(`Analyzing ${screenshotsToAnalyze.length} screenshots for persona: ${results.persona}`);
+      console.log(`Sending to ${provider.name} for analysis...`);
+      console.log(`  Model: ${model}`);
+      console.log(`  Screenshots: ${screenshotsToAnalyze.length}${batches.length > 1 ? ` in ${batches.length} batches` : ''}`);
 
-        if (!result.content || !result.content[0]?.text) {
-          console.error('Error: Unexpected API response format');
-          process.exit(1);
+      try {
+        const { output, model: answeredBy } =
+          batches.length > 1
+            ? await analyzeInBatches(provider, model, results, batches, loadImage, options.output)
+            : await requestOutput(
+                provider,
+                {
+                  model,
+                  system: screenshotSystemPrompt(results),
+                  content: await scopeContent(
+                    results,
+                    {
+                      screenshots: screenshotsToAnalyze,
+                      tasks: results.tasks,
+                      observations: results.observations,
+                      timeline: results.timeline ?? [],
+                      errorGroups: groupSessionErrors(results.session.errors ?? []),
+                    },
+                    loadImage,
+                    `I have ${screenshotsToAnalyze.length} screenshots from a persona-driven test session. Please analyze each one from the perspective of the persona described in your instructions.\n\n`
+                  ),
+                  output: ANALYSIS_OUTPUT_FORMAT,
+                },
+                parseAnalysisOutput,
+                options.output,
+                'analysis'
+              );
+
+        const screenshotIds = new Set(results.screenshots.map((ss) => ss.id));
+        const unknownIds = output.screenshots
+          .map((entry) => entry.screenshotId)
+          .filter((id) => !screenshotIds.has(id));
+        if (unknownIds.length > 0) {
+          console.warn(`Warning: Ignoring findings for unknown screenshots: ${unknownIds.join(', ')}`);
         }
 
-        const analysis = result.content[0].text;
+        const failedRequestCount = (results.session.errors ?? []).filter(
+          (e) => e.kind === 'httpError' || e.kind === 'requestFailed'
+        ).length;
 
         // Build the output markdown
         const outputMd = `# PersonaSpec AI Analysis
@@ -223,22 +661,36 @@ ${results.behaviors.map((b) => `- ${b}`).join('\n')}
 - **Clicks:** ${results.session.clickCount}
 - **Back Navigations:** ${results.session.backNavCount}
 - **Console Errors:** ${results.session.consoleErrors.length}
-- **Screenshots Analyzed:** ${screenshotsToAnalyze.length}
+- **Failed Requests:** ${failedRequestCount}
+- **Screenshots Analyzed:** ${screenshotsToAnalyze.length}${batches.length > 1 ? ` (in ${batches.length} batches)` : ''}
 
 ---
 
-${analysis}
+${formatAnalysisMarkdown(output, results)}
 
 ---
 
-*Generated by [PersonaSpec](https://personaspec.dev) using ${options.model} on ${new Date().toLocaleString()}*
+*Generated by [PersonaSpec](https://personaspec.dev) using ${model} on ${new Date().toLocaleString()}*
 `;
 
         await fs.writeFile(options.output, outputMd);
         console.log(`\nAnalysis saved to: ${options.output}`);
+
+        const analyzed = applyAnalysis(results, output, {
+          model: answeredBy ?? model,
+          ...(batches.length > 1 && { batches: batches.length }),
+        });
+        await fs.writeFile(resultsPath, JSON.stringify(analyzed, null, 2));
+        const { summary } = analyzed;
+        console.log(
+          `Summary saved to: ${resultsPath} (score ${summary?.overallScore}, ${summary?.criticalIssues} critical, ${summary?.moderateIssues} moderate, ${summary?.minorIssues} minor)`
+        );
       } catch (error) {
-        if (error instanceof TypeError && error.message.includes('fetch')) {
-          console.error('Error: Network request failed. Check your internet connection.');
+        if (error instanceof AnalysisProviderError) {
+          console.error(`Error: ${error.message}`);
+          if (error.options.hint) {
+            console.error(`Hint: ${error.options.hint}`);
+          }
         } else {
           console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
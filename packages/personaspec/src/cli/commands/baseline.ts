@@ -0,0 +1,53 @@
+import { Command } from 'commander';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { baselinePath, DEFAULT_BASELINE_DIR, isPng } from '../../core/baseline.js';
+import { readScreenshotImage } from '../../core/screenshotStore.js';
+import { loadResultsOrExit } from '../loadResults.js';
+
+const updateCommand = new Command('update')
+  .description("Accept a run's screenshots as the new visual baselines")
+  .argument('<results...>', 'Paths to results JSON files')
+  .option('-d, --dir <dir>', 'Baseline directory', DEFAULT_BASELINE_DIR)
+  .option('-s, --screenshot <names...>', 'Only update screenshots with these names')
+  .action(async (resultsPaths: string[], options: { dir: string; screenshot?: string[] }) => {
+    let updated = 0;
+    let skipped = 0;
+
+    for (const resultsPath of resultsPaths) {
+      const results = await loadResultsOrExit(resultsPath);
+      const resultsDir = path.dirname(resultsPath);
+      console.log(`Updating baselines for: ${results.persona}`);
+
+      // Diff images aren't baselines; later captures of the same name win
+      const screenshots = results.screenshots.filter(
+        (ss) => !ss.diffOf && (!options.screenshot || options.screenshot.includes(ss.name))
+      );
+
+      for (const screenshot of screenshots) {
+        const image = await readScreenshotImage(screenshot, resultsDir);
+        if (!image || !isPng(image)) {
+          skipped++;
+          console.warn(`  ✗ ${screenshot.name}: ${image ? 'not a PNG image' : 'image not found'}`);
+          continue;
+        }
+
+        const filepath = baselinePath(options.dir, results.persona, screenshot.name, results.project);
+        await fs.mkdir(path.dirname(filepath), { recursive: true });
+        await fs.writeFile(filepath, image);
+        updated++;
+        console.log(`  ✓ ${screenshot.name} → ${filepath}`);
+      }
+    }
+
+    console.log(`\n${updated} baseline(s) updated${skipped > 0 ? `, ${skipped} skipped` : ''}`);
+
+    if (updated === 0) {
+      console.error('Error: No baselines were updated');
+      process.exit(1);
+    }
+  });
+
+export const baselineCommand = new Command('baseline')
+  .description('Manage visual baselines for screenshot comparison')
+  .addCommand(updateCommand);
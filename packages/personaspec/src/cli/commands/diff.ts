@@ -0,0 +1,257 @@
+import { Command } from 'commander';
+import * as fs from 'node:fs/promises';
+import {
+  diffResults,
+  formatDiffMarkdown,
+  formatMetricDelta,
+  isMetricImproved,
+  OBSERVATION_CHANGE_LABELS,
+  TASK_CHANGE_LABELS,
+  type ObservationChange,
+  type ObservationChangeKind,
+  type ResultsDiff,
+  type TaskChangeKind,
+} from '../../core/diff.js';
+import type { Observation, TaskResult } from '../../core/types.js';
+import { BASE_STYLES, escapeHtml } from '../html.js';
+import { loadResultsOrExit } from '../loadResults.js';
+
+/**
+ * Observation sections of the change report, in display order. Successes
+ * seen in both runs aren't listed.
+ */
+const REPORTED_CHANGES: ObservationChangeKind[] = ['resolved', 'introduced', 'persisting', 'added', 'removed'];
+
+/**
+ * Badge modifier for each task change.
+ */
+const TASK_CHANGE_BADGE: Record<TaskChangeKind, string> = {
+  fixed: 'success',
+  regressed: 'frustration',
+  passing: 'note',
+  failing: 'confusion',
+  added: 'note',
+  removed: 'note',
+};
+
+function observationHtml(observation: Observation): string {
+  return `<div class="observation-header">
+          <span class="badge badge--${observation.type}">${observation.type}</span>
+          <span class="observation-location">${escapeHtml(observation.location)}</span>
+          ${observation.severity ? `<span class="observation-location">${observation.severity}</span>` : ''}
+        </div>
+        <p>${escapeHtml(observation.description)}</p>`;
+}
+
+function changeHtml(change: ObservationChange): string {
+  const [primary, other] = change.before ? [change.before, change.after] : [change.after, undefined];
+  if (!primary) return '';
+  return `
+      <div class="card change change--${change.kind}">
+        ${observationHtml(primary)}
+        ${other ? `<div class="change-after"><span class="change-label">Now</span>${observationHtml(other)}</div>` : ''}
+      </div>`;
+}
+
+function generateDiffHtml(diff: ResultsDiff): string {
+  const persona =
+    diff.before.persona === diff.after.persona
+      ? diff.after.persona
+      : `${diff.before.persona} → ${diff.after.persona}`;
+  const count = (kind: ObservationChangeKind) => diff.observations.filter((c) => c.kind === kind).length;
+  const taskStatus = (task: TaskResult | undefined) =>
+    task ? (task.success ? '✅ Passed' : '❌ Failed') : '—';
+
+  const metricsHtml = diff.metrics
+    .map((metric) => {
+      const improved = isMetricImproved(metric);
+      return `
+        <tr>
+          <td>${escapeHtml(metric.label)}</td>
+          <td>${metric.before.toLocaleString('en-US')}</td>
+          <td>${metric.after.toLocaleString('en-US')}</td>
+          <td class="${improved === undefined ? '' : improved ? 'delta-better' : 'delta-worse'}">${formatMetricDelta(metric)}</td>
+        </tr>`;
+    })
+    .join('');
+
+  const tasksHtml = diff.tasks
+    .map(
+      (change) => `
+        <tr>
+          <td>${escapeHtml(change.after?.name ?? change.before?.name ?? '')}</td>
+          <td>${taskStatus(change.before)}</td>
+          <td>${taskStatus(change.after)}</td>
+          <td><span class="badge badge--${TASK_CHANGE_BADGE[change.kind]}">${TASK_CHANGE_LABELS[change.kind]}</span></td>
+        </tr>`
+    )
+    .join('');
+
+  const observationsHtml = REPORTED_CHANGES.map((kind) => {
+    const changes = diff.observations.filter((c) => c.kind === kind);
+    return changes.length
+      ? `<h2>${OBSERVATION_CHANGE_LABELS[kind]} (${changes.length})</h2>${changes.map(changeHtml).join('')}`
+      : '';
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>PersonaSpec Diff: ${escapeHtml(persona)}</title>
+  <style>${BASE_STYLES}
+    .summary {
+      display: flex;
+      gap: 1rem;
+      flex-wrap: wrap;
+    }
+
+    .diff-table {
+      width: 100%;
+      border-collapse: collapse;
+      background: var(--bg-surface);
+      border: 1px solid var(--border-subtle);
+      border-radius: 12px;
+      overflow: hidden;
+    }
+
+    .diff-table th,
+    .diff-table td {
+      padding: 0.5rem 1rem;
+      text-align: left;
+      border-bottom: 1px solid var(--border-subtle);
+    }
+
+    .diff-table th {
+      font-size: 0.75rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--text-muted);
+    }
+
+    .delta-better { color: var(--accent-success); }
+    .delta-worse { color: var(--accent-error); }
+
+    .observation-header {
+      display: flex;
+      align-items: center;
+      gap: 1rem;
+      margin-bottom: 0.5rem;
+    }
+
+    .observation-location {
+      color: var(--text-muted);
+      font-size: 0.875rem;
+    }
+
+    .change--resolved { border-left: 3px solid var(--accent-success); }
+    .change--introduced { border-left: 3px solid var(--accent-error); }
+    .change--persisting { border-left: 3px solid var(--accent-warning); }
+
+    .change-after {
+      margin-top: 0.75rem;
+      padding-top: 0.75rem;
+      border-top: 1px dashed var(--border-subtle);
+    }
+
+    .change-label {
+      display: block;
+      font-size: 0.75rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--text-muted);
+      margin-bottom: 0.25rem;
+    }
+
+    @media (max-width: 768px) {
+      body {
+        padding: 1rem;
+      }
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${escapeHtml(persona)}</h1>
+    <p class="subtitle">Before: ${escapeHtml(diff.before.startTime)} · After: ${escapeHtml(diff.after.startTime)}</p>
+
+    <div class="summary">
+      <span class="badge badge--success">${count('resolved')} resolved</span>
+      <span class="badge badge--frustration">${count('introduced')} new</span>
+      <span class="badge badge--confusion">${count('persisting')} persisting</span>
+    </div>
+
+    <h2>Metrics</h2>
+    <table class="diff-table">
+      <thead><tr><th>Metric</th><th>Before</th><th>After</th><th>Change</th></tr></thead>
+      <tbody>${metricsHtml}</tbody>
+    </table>
+
+    <h2>Tasks</h2>
+    <table class="diff-table">
+      <thead><tr><th>Task</th><th>Before</th><th>After</th><th>Change</th></tr></thead>
+      <tbody>${tasksHtml}</tbody>
+    </table>
+
+    ${observationsHtml}
+
+    <div class="footer">
+      Generated by <a href="https://personaspec.dev">PersonaSpec</a> on ${new Date().toLocaleString()}
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
+export const diffCommand = new Command('diff')
+  .description('Compare two runs: resolved and new issues, task changes and metrics')
+  .argument('<before>', 'Results JSON file of the earlier run')
+  .argument('<after>', 'Results JSON file of the later run')
+  .option('-o, --output <file>', 'Change report file; Markdown for .md, HTML otherwise', 'diff-report.html')
+  .action(async (beforePath: string, afterPath: string, options: { output: string }) => {
+    const before = await loadResultsOrExit(beforePath);
+    const after = await loadResultsOrExit(afterPath);
+
+    if (before.persona !== after.persona) {
+      console.warn(`Warning: Comparing different personas: "${before.persona}" and "${after.persona}"`);
+    }
+
+    const diff = diffResults(before, after);
+
+    console.log(`Comparing runs for: ${after.persona}`);
+    console.log(`  Before: ${beforePath} (${before.session.startTime})`);
+    console.log(`  After:  ${afterPath} (${after.session.startTime})`);
+
+    for (const kind of REPORTED_CHANGES) {
+      const changes = diff.observations.filter((c) => c.kind === kind);
+      if (changes.length === 0) continue;
+      console.log(`\n${OBSERVATION_CHANGE_LABELS[kind]} (${changes.length}):`);
+      for (const change of changes) {
+        const observation = change.before ?? change.after;
+        if (observation) {
+          console.log(`  - [${observation.type}] ${observation.location}: ${observation.description}`);
+        }
+      }
+    }
+
+    const flipped = diff.tasks.filter((c) => c.kind === 'fixed' || c.kind === 'regressed');
+    if (flipped.length > 0) {
+      console.log('\nTasks:');
+      for (const change of flipped) {
+        console.log(`  - ${TASK_CHANGE_LABELS[change.kind]}: ${change.after?.name}`);
+      }
+    }
+
+    const moved = diff.metrics.filter((metric) => metric.before !== metric.after);
+    if (moved.length > 0) {
+      console.log('\nMetrics:');
+      for (const metric of moved) {
+        console.log(`  - ${metric.label}: ${metric.before} → ${metric.after} (${formatMetricDelta(metric)})`);
+      }
+    }
+
+    const report = options.output.endsWith('.md') ? formatDiffMarkdown(diff) : generateDiffHtml(diff);
+    await fs.writeFile(options.output, report);
+    console.log(`\nChange report generated: ${options.output}`);
+  });
@@ -6,15 +6,15 @@ const PLAYWRIGHT_CONFIG = `import { defineConfig, devices } from '@playwright/te
 
 /**
  * Playwright config optimized for persona-driven testing.
- * - Serial execution simulates real user sessions
- * - Single worker ensures consistent test ordering
+ * - Serial execution within each persona simulates real user sessions
+ * - Personas can run in parallel workers; each worker writes a partial
+ *   results file, always combined afterwards with \`npx personaspec merge\`
  */
 export default defineConfig({
   testDir: './tests/personas',
   fullyParallel: false,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
-  workers: 1,
   reporter: 'html',
   use: {
     baseURL: process.env.BASE_URL || 'http://localhost:3000',
@@ -37,6 +37,8 @@ const OBSERVATION_COLLECTOR_WRAPPER = `/**
  */
 export {
   ObservationCollector,
+  personaTest,
+  describePersona,
   definePersona,
   personaTemplates,
 } from 'personaspec';
@@ -57,9 +59,10 @@ const EXAMPLE_PERSONA_TEST = `/**
  * to understand the site's purpose quickly.
  */
 
-import { test, expect } from '@playwright/test';
+import { expect } from '@playwright/test';
 import {
-  ObservationCollector,
+  personaTest as test,
+  describePersona,
   personaTemplates,
 } from '../utils/observation-collector';
 
@@ -68,39 +71,18 @@ const persona = personaTemplates.firstTimeVisitor({
   name: 'Alex',
   // Override any defaults:
   // goals: ['Find pricing', 'Understand the product'],
+  // environment: { viewport: { width: 1366, height: 768 }, network: 'fast3g' },
 });
 
-// Create the collector
-const collector = new ObservationCollector({
-  outputDir: './test-results',
-  persona,
-});
-
-// Run tests serially to simulate a real user session
-test.describe.configure({ mode: 'serial' });
-
-test.describe(\`\${persona.name} - \${persona.role}\`, () => {
-  test.beforeEach(async ({ page }) => {
-    // Track console errors
-    page.on('console', (msg) => {
-      if (msg.type() === 'error') {
-        collector.addConsoleError(msg.text());
-      }
-    });
-  });
-
-  test.afterAll(async () => {
-    // Save all collected observations
-    const filepath = await collector.save();
-    console.log(\`Observations saved to: \${filepath}\`);
-  });
-
-  test('understand site purpose within 10 seconds', async ({ page }) => {
+// Runs the tests serially as one session. The \`collector\` fixture records
+// console errors, page loads, clicks and back navigations automatically and
+// saves observations when the block finishes.
+describePersona(persona, () => {
+  test('understand site purpose within 10 seconds', async ({ page, collector }) => {
     collector.startTask();
     let success = false;
 
     await page.goto('/');
-    collector.trackPageLoad();
     await collector.screenshot(page, 'homepage-initial', 'First view of the homepage');
 
     // Check if there's a clear headline
@@ -127,7 +109,7 @@ test.describe(\`\${persona.name} - \${persona.role}\`, () => {
     expect(success).toBe(true);
   });
 
-  test('find getting started or signup', async ({ page }) => {
+  test('find getting started or signup', async ({ page, collector }) => {
     collector.startTask();
     let success = false;
 
@@ -147,8 +129,6 @@ test.describe(\`\${persona.name} - \${persona.role}\`, () => {
         const text = await cta.textContent();
         collector.observe('success', \`Found CTA: "\${text}"\`, 'Homepage');
         await cta.click();
-        collector.trackClick();
-        collector.trackPageLoad();
         await collector.screenshot(page, 'after-cta-click', 'After clicking the main CTA');
         success = true;
         break;
@@ -163,12 +143,11 @@ test.describe(\`\${persona.name} - \${persona.role}\`, () => {
     collector.recordTask('find getting started or signup', success, success ? 'CTA found and clicked' : 'No CTA found');
   });
 
-  test('find help or documentation', async ({ page }) => {
+  test('find help or documentation', async ({ page, collector }) => {
     collector.startTask();
     let success = false;
 
     await page.goto('/');
-    collector.trackPageLoad();
 
     // Look for help/docs links
     const helpSelectors = [
@@ -199,11 +178,10 @@ test.describe(\`\${persona.name} - \${persona.role}\`, () => {
     collector.recordTask('find help or documentation', success, success ? 'Help link found' : 'Help link not found');
   });
 
-  test('free exploration', async ({ page }) => {
+  test('free exploration', async ({ page, collector }) => {
     collector.startTask();
 
     await page.goto('/');
-    collector.trackPageLoad();
     await collector.screenshot(page, 'exploration-start', 'Beginning free exploration');
 
     // Simulate natural browsing behavior
@@ -221,8 +199,6 @@ test.describe(\`\${persona.name} - \${persona.role}\`, () => {
           const navLink = page.locator('nav a').first();
           if (await navLink.isVisible().catch(() => false)) {
             await navLink.click();
-            collector.trackClick();
-            collector.trackPageLoad();
             await collector.screenshot(page, 'nav-click-result', 'After clicking navigation');
           }
         },
@@ -231,7 +207,6 @@ test.describe(\`\${persona.name} - \${persona.role}\`, () => {
         name: 'go back',
         fn: async () => {
           await page.goBack();
-          collector.trackBackNav();
         },
       },
       {
@@ -262,6 +237,7 @@ const GITIGNORE_ADDITIONS = `
 # PersonaSpec test results
 test-results/
 *.observations.json
+.personaspec-cache/
 `;
 
 export const initCommand = new Command('init')
@@ -335,10 +311,13 @@ Next steps:
   4. Run your first persona test:
      npx playwright test
 
-  5. Generate a report:
+  5. Merge the results each worker saved (retried attempts are dropped):
+     npx personaspec merge test-results/partials/*.json
+
+  6. Generate a report:
      npx personaspec report test-results/*.json
 
-  6. (Optional) Get AI analysis:
+  7. (Optional) Get AI analysis:
      ANTHROPIC_API_KEY=xxx npx personaspec analyze test-results/*.json
 `);
   });
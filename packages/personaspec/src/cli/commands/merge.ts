@@ -0,0 +1,48 @@
+import { Command } from 'commander';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { mergeResults } from '../../core/merge.js';
+import { rebaseScreenshotRefs } from '../../core/screenshotStore.js';
+import type { PersonaTestResults } from '../../core/types.js';
+import { loadResultsOrExit } from '../loadResults.js';
+
+export const mergeCommand = new Command('merge')
+  .description('Merge partial results from parallel workers or shards')
+  .argument('<partials...>', 'Paths to partial results JSON files')
+  .option('-o, --output-dir <dir>', 'Directory for merged results', 'test-results')
+  .action(async (partialPaths: string[], options: { outputDir: string }) => {
+    // Group partials by persona so one run can merge every persona at once
+    const byPersona = new Map<string, PersonaTestResults[]>();
+
+    for (const partialPath of partialPaths) {
+      // Keep screenshot store references valid from the merged file's directory
+      const partial = rebaseScreenshotRefs(
+        await loadResultsOrExit(partialPath),
+        path.dirname(partialPath),
+        options.outputDir
+      );
+
+      const group = byPersona.get(partial.persona) ?? [];
+      group.push(partial);
+      byPersona.set(partial.persona, group);
+    }
+
+    await fs.mkdir(options.outputDir, { recursive: true });
+
+    for (const [persona, parts] of byPersona) {
+      const merged = mergeResults(parts);
+
+      // Same filename ObservationCollector.save() uses for single-worker runs
+      const name = persona.split(' - ')[0] ?? persona;
+      const safeName = name.toLowerCase().replace(/\s+/g, '-');
+      const outputPath = path.join(options.outputDir, `${safeName}-observations.json`);
+
+      await fs.writeFile(outputPath, JSON.stringify(merged, null, 2));
+
+      console.log(`Merged ${parts.length} partial file(s) for: ${persona}`);
+      console.log(`  - ${merged.tasks.length} tasks`);
+      console.log(`  - ${merged.observations.length} observations`);
+      console.log(`  - ${merged.screenshots.length} screenshots`);
+      console.log(`  Saved to: ${outputPath}`);
+    }
+  });
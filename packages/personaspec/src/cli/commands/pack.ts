@@ -0,0 +1,29 @@
+import { Command } from 'commander';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { packResults } from '../../core/screenshotStore.js';
+import { loadResultsOrExit } from '../loadResults.js';
+
+export const packCommand = new Command('pack')
+  .description('Inline all screenshots into a portable single-file results JSON')
+  .argument('<results>', 'Path to results JSON file')
+  .option('-o, --output <file>', 'Output file (default: <results>.packed.json)')
+  .action(async (resultsPath: string, options: { output?: string }) => {
+    console.log(`Loading results from ${resultsPath}...`);
+
+    const results = await loadResultsOrExit(resultsPath);
+    const { results: packed, missing } = await packResults(results, path.dirname(resultsPath));
+
+    if (missing.length > 0) {
+      console.error(`Error: Could not find images for ${missing.length} screenshot(s):`);
+      for (const name of missing) {
+        console.error(`  - ${name}`);
+      }
+      process.exit(1);
+    }
+
+    const output = options.output ?? resultsPath.replace(/\.json$/, '') + '.packed.json';
+    await fs.writeFile(output, JSON.stringify(packed, null, 2));
+
+    console.log(`Packed ${packed.screenshots.length} screenshots into: ${output}`);
+  });
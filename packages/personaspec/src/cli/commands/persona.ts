@@ -0,0 +1,82 @@
+import { Command } from 'commander';
+import * as fs from 'node:fs/promises';
+import { glob } from 'tinyglobby';
+import { personaTemplates } from '../../core/helpers.js';
+import { formatPersonaFileIssue, parsePersona } from '../../core/personaFile.js';
+
+/**
+ * Where `persona list` looks for persona files by default.
+ */
+const DEFAULT_PERSONA_PATTERNS = [
+  'personas/**/*.{yaml,yml,json}',
+  'tests/personas/**/*.{yaml,yml,json}',
+  '**/*.persona.{yaml,yml,json}',
+];
+
+async function findPersonaFiles(patterns: string[]): Promise<string[]> {
+  return glob(patterns, { ignore: ['**/node_modules/**'] });
+}
+
+const validateCommand = new Command('validate')
+  .description('Validate persona files')
+  .argument('<patterns...>', 'Persona files or glob patterns (YAML or JSON)')
+  .action(async (patterns: string[]) => {
+    const files = await findPersonaFiles(patterns);
+
+    if (files.length === 0) {
+      console.error(`Error: No persona files match: ${patterns.join(', ')}`);
+      process.exit(1);
+    }
+
+    let invalidCount = 0;
+    for (const file of files) {
+      const { persona, issues } = parsePersona(await fs.readFile(file, 'utf-8'));
+
+      if (persona) {
+        console.log(`  ✓ ${file} (${persona.name} - ${persona.role})`);
+      } else {
+        invalidCount++;
+        console.log(`  ✗ ${file}`);
+        for (const issue of issues) {
+          console.log(`      ${formatPersonaFileIssue(file, issue)}`);
+        }
+      }
+    }
+
+    console.log(`\n${files.length - invalidCount} valid, ${invalidCount} invalid`);
+
+    if (invalidCount > 0) {
+      process.exit(1);
+    }
+  });
+
+const listCommand = new Command('list')
+  .description('List persona files in the project and built-in templates')
+  .option('-p, --pattern <patterns...>', 'Glob patterns to search for persona files', DEFAULT_PERSONA_PATTERNS)
+  .action(async (options: { pattern: string[] }) => {
+    const files = await findPersonaFiles(options.pattern);
+
+    console.log('Project personas:');
+    if (files.length === 0) {
+      console.log('  (none found)');
+    }
+    for (const file of files) {
+      const { persona, issues } = parsePersona(await fs.readFile(file, 'utf-8'));
+      if (persona) {
+        console.log(`  ${persona.name} - ${persona.role}  (${file})`);
+      } else {
+        console.log(`  ✗ ${file}: ${issues.length} problem(s), run "personaspec persona validate ${file}"`);
+      }
+    }
+
+    console.log('\nBuilt-in templates:');
+    for (const [key, template] of Object.entries(personaTemplates)) {
+      const persona = template();
+      console.log(`  ${persona.name} - ${persona.role}  (personaTemplates.${key})`);
+    }
+  });
+
+export const personaCommand = new Command('persona')
+  .description('Work with persona definition files')
+  .addCommand(validateCommand)
+  .addCommand(listCommand);
@@ -1,17 +1,224 @@
 import { Command } from 'commander';
 import * as fs from 'node:fs/promises';
-import type { PersonaTestResults } from '../../core/types.js';
-
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
+import * as path from 'node:path';
+import { glob, isDynamicPattern } from 'tinyglobby';
+import {
+  formatSessionErrorGroup,
+  groupSessionErrors,
+  SESSION_ERROR_LABELS,
+} from '../../core/errors.js';
+import { aggregateResults } from '../../core/aggregate.js';
+import { FINDING_CATEGORY_LABELS, RECOMMENDATION_PRIORITY_LABELS } from '../../core/analysis.js';
+import { describePersonaEnvironment } from '../../core/helpers.js';
+import { createIdAllocator } from '../../core/ids.js';
+import { formatPerformanceValue, ratePerformance } from '../../core/performance.js';
+import {
+  formatBytes,
+  formatImageReduction,
+  readPreparedImage,
+  REPORT_IMAGE_BUDGET,
+  type PreparedImage,
+} from '../../core/image.js';
+import { formatSignalEvidence, SIGNAL_LABELS } from '../../core/signals.js';
+import { formatElapsed, TIMELINE_EVENT_LABELS } from '../../core/timeline.js';
+import type {
+  AccessibilityImpact,
+  ObservationSeverity,
+  ObservationType,
+  PagePerformance,
+  PerformanceMetric,
+  PersonaTestResults,
+  Screenshot,
+  TaskFailureReason,
+  TaskResult,
+  TestRun,
+} from '../../core/types.js';
+import { generateAggregateHtml, personasLabel, type AggregateRun } from '../aggregateHtml.js';
+import { BASE_STYLES, escapeHtml } from '../html.js';
+import { loadResultsOrExit } from '../loadResults.js';
+
+/**
+ * Redraw highlighted regions over a screenshot, positioned as percentages of
+ * the image so they scale with it.
+ */
+function annotationsHtml(ss: Screenshot): string {
+  if (!ss.size || !ss.annotations?.length) return '';
+  const { width, height } = ss.size;
+  const pct = (value: number, total: number) => `${((value / total) * 100).toFixed(2)}%`;
+
+  return ss.annotations
+    .map(
+      (a) => `<div class="annotation" style="left:${pct(a.x, width)};top:${pct(a.y, height)};width:${pct(a.width, width)};height:${pct(a.height, height)}"${
+        a.label ? ` title="${escapeHtml(a.label)}"` : ''
+      }>${a.label ? `<span class="annotation-label">${escapeHtml(a.label)}</span>` : ''}</div>`
+    )
+    .join('');
+}
+
+/**
+ * Badge style for each finding severity, reusing the observation colors.
+ */
+const SEVERITY_BADGE: Record<ObservationSeverity, ObservationType> = {
+  critical: 'frustration',
+  moderate: 'confusion',
+  minor: 'note',
+  positive: 'success',
+};
+
+/**
+ * Badge style for each accessibility impact, reusing the observation colors.
+ */
+const IMPACT_BADGE: Record<AccessibilityImpact, ObservationType> = {
+  critical: 'frustration',
+  serious: 'frustration',
+  moderate: 'confusion',
+  minor: 'note',
+};
+
+/**
+ * Format a page load metric, colored by its Core Web Vitals rating.
+ */
+function performanceValueHtml(metric: PerformanceMetric, value: number | undefined): string {
+  if (value === undefined) return '<span class="perf--none">—</span>';
+  const rating = ratePerformance(metric, value);
+  return `<span${rating ? ` class="perf--${rating}"` : ''}>${formatPerformanceValue(metric, value)}</span>`;
+}
+
+/**
+ * Metric tile showing the worst value of a metric across page loads.
+ */
+function worstPerformanceTile(
+  pageLoads: PagePerformance[],
+  metric: 'lcp' | 'cls' | 'inp',
+  label: string
+): string {
+  const values = pageLoads.map((p) => p[metric]).filter((v): v is number => v !== undefined);
+  if (values.length === 0) return '';
+  const worst = Math.max(...values);
+  return `<div class="metric">
+      <div class="metric-value">${performanceValueHtml(metric, worst)}</div>
+      <div class="metric-label">${label}</div>
+    </div>`;
+}
+
+const FAILURE_REASON_LABELS: Record<TaskFailureReason, string> = {
+  assertion: 'Assertion failed',
+  error: 'Error',
+  timeBudget: 'Out of time',
+  gaveUp: 'Gave up',
+};
+
+/**
+ * Status icon and class for a task card.
+ */
+function taskStatus(task: TaskResult): { icon: string; modifier: string } {
+  if (task.outcome === 'abandoned') return { icon: '⊘', modifier: 'abandoned' };
+  return task.success ? { icon: '✓', modifier: 'success' } : { icon: '✗', modifier: 'failure' };
+}
+
+/**
+ * Step breakdown of a task, with bars scaled to the task's duration.
+ */
+function taskStepsHtml(task: TaskResult): string {
+  if (!task.steps?.length) return '';
+  const total = Math.max(task.duration, ...task.steps.map((step) => step.duration), 1);
+
+  return `<ol class="task-steps">${task.steps
+    .map(
+      (step) => `
+        <li class="task-step${step.success ? '' : ' task-step--failed'}"${step.error ? ` title="${escapeHtml(step.error)}"` : ''}>
+          <span class="task-step-name">${escapeHtml(step.name)}</span>
+          <span class="task-step-bar"><span style="width:${((step.duration / total) * 100).toFixed(1)}%"></span></span>
+          <span class="task-duration">${(step.duration / 1000).toFixed(1)}s</span>
+        </li>`
+    )
+    .join('')}
+      </ol>`;
+}
+
+/**
+ * Links to a test's trace and video, relative to the report.
+ */
+interface ArtifactLinks {
+  trace?: string;
+  video?: string;
+}
+
+/**
+ * Find each test's trace and video (as recorded, or relative to the results
+ * file) and link them from the report, copying them into
+ * `<report dir>/artifacts/` first if asked.
+ *
+ * @returns Links by test ID, and the artifacts that couldn't be found
+ */
+async function linkTestArtifacts(
+  tests: TestRun[],
+  resultsDir: string,
+  reportDir: string,
+  copy: boolean
+): Promise<{ links: Map<string, ArtifactLinks>; missing: string[] }> {
+  const links = new Map<string, ArtifactLinks>();
+  const missing: string[] = [];
+  const toHref = (file: string) =>
+    path.relative(reportDir, file).split(path.sep).map(encodeURIComponent).join('/');
+
+  for (const test of tests) {
+    const testLinks: ArtifactLinks = {};
+    for (const kind of ['trace', 'video'] as const) {
+      const recorded = test[kind];
+      if (!recorded) continue;
+
+      let found: string | undefined;
+      for (const candidate of [path.resolve(recorded), path.resolve(resultsDir, recorded)]) {
+        try {
+          await fs.access(candidate);
+          found = candidate;
+          break;
+        } catch {
+          // Try the next location
+        }
+      }
+      if (!found) {
+        missing.push(recorded);
+        continue;
+      }
+
+      if (copy) {
+        const target = path.join(reportDir, 'artifacts', `${test.id}-${kind}${path.extname(found)}`);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.copyFile(found, target);
+        found = target;
+      }
+      testLinks[kind] = toHref(found);
+    }
+    if (testLinks.trace || testLinks.video) links.set(test.id, testLinks);
+  }
+
+  return { links, missing };
+}
+
+/**
+ * Trace and video links for a task or test.
+ */
+function artifactLinksHtml(links: ArtifactLinks | undefined): string {
+  if (!links) return '';
+  return [
+    links.trace &&
+      `<a href="${escapeHtml(links.trace)}" title="Open with: npx playwright show-trace ${escapeHtml(
+        decodeURIComponent(links.trace)
+      )}">Trace</a>`,
+    links.video && `<a href="${escapeHtml(links.video)}">Video</a>`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
 }
 
-function generateHtml(results: PersonaTestResults): string {
+function generateHtml(
+  results: PersonaTestResults,
+  images: Array<PreparedImage | undefined>,
+  artifactLinks: Map<string, ArtifactLinks> = new Map(),
+  overviewHref?: string
+): string {
   // Count observation types
   const counts = {
     success: results.observations.filter((o) => o.type === 'success').length,
@@ -26,6 +233,11 @@ function generateHtml(results: PersonaTestResults): string {
     ? Math.round((successfulTasks / results.tasks.length) * 100)
     : 0;
 
+  const pageLoads = results.session.performance ?? [];
+  const errors = results.session.errors ?? [];
+  const failedRequests = errors.filter((e) => e.kind === 'httpError' || e.kind === 'requestFailed');
+  const totalTransfer = pageLoads.reduce((sum, p) => sum + (p.transferSize ?? 0), 0);
+
   // Generate metrics HTML
   const metricsHtml = `
     <div class="metric">
@@ -48,8 +260,107 @@ function generateHtml(results: PersonaTestResults): string {
       <div class="metric-value">${taskSuccessRate}%</div>
       <div class="metric-label">Task Success Rate</div>
     </div>
+    ${
+      results.session.viewportsTested?.length
+        ? `<div class="metric" title="${escapeHtml(results.session.viewportsTested.join(', '))}">
+      <div class="metric-value">${results.session.viewportsTested.length}</div>
+      <div class="metric-label">Viewports Tested</div>
+    </div>`
+        : ''
+    }
+    ${
+      results.session.errors
+        ? `<div class="metric">
+      <div class="metric-value">${failedRequests.length}</div>
+      <div class="metric-label">Failed Requests</div>
+    </div>`
+        : ''
+    }
+    ${worstPerformanceTile(pageLoads, 'lcp', 'Worst LCP')}
+    ${worstPerformanceTile(pageLoads, 'cls', 'Worst CLS')}
+    ${worstPerformanceTile(pageLoads, 'inp', 'Worst INP')}
+    ${
+      totalTransfer > 0
+        ? `<div class="metric">
+      <div class="metric-value">${formatPerformanceValue('transferSize', totalTransfer)}</div>
+      <div class="metric-label">Transferred</div>
+    </div>`
+        : ''
+    }
   `;
 
+  // Generate errors HTML, repeats grouped under each kind
+  const taskNames = new Map(results.tasks.map((t) => [t.id, t.name]));
+  const errorGroups = groupSessionErrors(errors);
+  const errorsHtml = errorGroups.length
+    ? `
+    <h2>Errors</h2>
+    ${(Object.keys(SESSION_ERROR_LABELS) as Array<keyof typeof SESSION_ERROR_LABELS>)
+      .map((kind) => {
+        const groups = errorGroups.filter((g) => g.error.kind === kind);
+        if (groups.length === 0) return '';
+        const total = groups.reduce((sum, g) => sum + g.count, 0);
+        return `
+    <div class="card error-group">
+      <div class="error-group-header">
+        <strong>${SESSION_ERROR_LABELS[kind]}</strong>
+        <span class="task-duration">${total} total</span>
+      </div>
+      ${groups
+        .map(
+          (group) => `
+      <div class="error-item">
+        <div class="error-summary">${escapeHtml(formatSessionErrorGroup(group))}</div>
+        <div class="observation-evidence">${[
+          group.pageUrls.length ? `On ${group.pageUrls.map(escapeHtml).join(', ')}` : '',
+          group.taskIds.length
+            ? `During ${group.taskIds.map((id) => escapeHtml(taskNames.get(id) ?? id)).join(', ')}`
+            : '',
+        ]
+          .filter(Boolean)
+          .join(' · ')}</div>
+        ${
+          group.error.stack
+            ? `<details><summary>Stack trace</summary><pre class="error-stack">${escapeHtml(group.error.stack)}</pre></details>`
+            : ''
+        }
+      </div>`
+        )
+        .join('')}
+    </div>`;
+      })
+      .join('')}
+  `
+    : '';
+
+  // Generate page performance HTML
+  const performanceHtml = pageLoads.length
+    ? `
+    <div class="card perf-table-wrap">
+      <table class="perf-table">
+        <thead>
+          <tr><th>Page</th><th>TTFB</th><th>LCP</th><th>CLS</th><th>INP</th><th>Transferred</th></tr>
+        </thead>
+        <tbody>
+          ${pageLoads
+            .map(
+              (p) => `
+          <tr>
+            <td class="perf-url" title="${escapeHtml(p.timestamp)}">${escapeHtml(p.url)}</td>
+            <td>${performanceValueHtml('ttfb', p.ttfb)}</td>
+            <td>${performanceValueHtml('lcp', p.lcp)}</td>
+            <td>${performanceValueHtml('cls', p.cls)}</td>
+            <td>${performanceValueHtml('inp', p.inp)}</td>
+            <td>${performanceValueHtml('transferSize', p.transferSize)}</td>
+          </tr>`
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </div>
+  `
+    : '';
+
   // Generate observation counts HTML
   const observationCountsHtml = `
     <div class="obs-counts">
@@ -60,122 +371,402 @@ function generateHtml(results: PersonaTestResults): string {
     </div>
   `;
 
+  // Image data URIs and names by screenshot ID, for linking evidence
+  const imageSrc = new Map<string, string>();
+  const screenshotNames = new Map<string, string>();
+  results.screenshots.forEach((ss, i) => {
+    screenshotNames.set(ss.id, ss.name);
+    const image = images[i];
+    if (image) imageSrc.set(ss.id, `data:${image.mediaType};base64,${image.data.toString('base64')}`);
+  });
+
+  // Evidence recorded during each task
+  const taskEvidenceHtml = (taskId: string) => {
+    const observations = results.observations.filter((o) => o.taskId === taskId);
+    const screenshots = results.screenshots.filter((ss) => ss.taskId === taskId);
+    if (observations.length === 0 && screenshots.length === 0) return '';
+
+    const observationItems = observations
+      .map(
+        (o) =>
+          `<li><span class="badge badge--${o.type}">${o.type}</span> <a href="#${o.id}">${escapeHtml(o.description)}</a></li>`
+      )
+      .join('');
+    const thumbnails = screenshots
+      .map((ss) => {
+        const src = imageSrc.get(ss.id);
+        return `<a class="task-thumb" href="#${ss.id}" title="${escapeHtml(ss.name)}">${
+          src ? `<img src="${src}" alt="${escapeHtml(ss.name)}" loading="lazy">` : escapeHtml(ss.name)
+        }</a>`;
+      })
+      .join('');
+
+    return `<div class="task-evidence">
+        ${observationItems ? `<ul class="task-observations">${observationItems}</ul>` : ''}
+        ${thumbnails ? `<div class="task-thumbs">${thumbnails}</div>` : ''}
+      </div>`;
+  };
+
   // Generate tasks HTML
   const tasksHtml = results.tasks
-    .map(
-      (task) => `
-    <div class="card task">
+    .map((task) => {
+      const status = taskStatus(task);
+      return `
+    <div class="card task" id="${task.id}">
       <div class="task-header">
-        <span class="task-status ${task.success ? 'task-status--success' : 'task-status--failure'}">
-          ${task.success ? '✓' : '✗'}
+        <span class="task-status task-status--${status.modifier}">
+          ${status.icon}
         </span>
-        <span class="task-name">${escapeHtml(task.name)}</span>
-        <span class="task-duration">${(task.duration / 1000).toFixed(1)}s</span>
+        <span class="task-name">${escapeHtml(task.name)}${
+          task.parentId
+            ? ` <a class="task-parent" href="#${task.parentId}">in ${escapeHtml(taskNames.get(task.parentId) ?? task.parentId)}</a>`
+            : ''
+        }</span>
+        <span class="task-duration">${(task.duration / 1000).toFixed(1)}s${
+          task.budget !== undefined ? ` of ${(task.budget / 1000).toFixed(1)}s budget` : ''
+        }</span>
       </div>
+      ${
+        task.failure
+          ? `<p class="task-failure"><strong>${FAILURE_REASON_LABELS[task.failure.reason]}${
+              task.failure.step ? ` in "${escapeHtml(task.failure.step)}"` : ''
+            }:</strong> ${escapeHtml(task.failure.message)}</p>`
+          : ''
+      }
       ${task.notes ? `<p class="task-notes">${escapeHtml(task.notes)}</p>` : ''}
+      ${
+        task.testId && artifactLinks.has(task.testId)
+          ? `<p class="task-notes">${artifactLinksHtml(artifactLinks.get(task.testId))}</p>`
+          : ''
+      }
+      ${taskStepsHtml(task)}
+      ${taskEvidenceHtml(task.id)}
     </div>
-  `
-    )
+  `;
+    })
     .join('');
 
+  // Generate the session timeline, listing each page's URL when it changes
+  const observationTypes = new Map(results.observations.map((o) => [o.id, o.type]));
+  let timelineUrl: string | undefined;
+  const timelineItems = (results.timeline ?? [])
+    .map((event) => {
+      const showUrl = event.url && event.url !== timelineUrl;
+      if (event.url) timelineUrl = event.url;
+      const marker =
+        event.kind === 'observation' && event.recordId
+          ? (observationTypes.get(event.recordId) ?? 'note')
+          : event.kind;
+      const src = event.kind === 'screenshot' && event.recordId ? imageSrc.get(event.recordId) : undefined;
+
+      return `
+      <li class="timeline-event timeline-event--${marker}">
+        <span class="timeline-time">${formatElapsed(event.timestamp, results.session.startTime)}</span>
+        <span class="timeline-kind">${TIMELINE_EVENT_LABELS[event.kind]}</span>
+        <div class="timeline-body">
+          ${
+            event.recordId
+              ? `<a href="#${event.recordId}">${escapeHtml(event.description)}</a>`
+              : escapeHtml(event.description)
+          }
+          ${showUrl ? `<span class="timeline-url">${escapeHtml(event.url!)}</span>` : ''}
+        </div>
+        ${src ? `<a class="timeline-thumb" href="#${event.recordId}"><img src="${src}" alt="" loading="lazy"></a>` : ''}
+      </li>`;
+    })
+    .join('');
+  const timelineHtml = timelineItems
+    ? `
+    <h2>Timeline</h2>
+    <ol class="timeline">${timelineItems}
+    </ol>
+  `
+    : '';
+
+  // Link observations to their test's trace. The trace viewer can't open at
+  // a given time, so the time into the test is shown beside the link to seek to
+  const tests = new Map((results.tests ?? []).map((test) => [test.id, test]));
+  const observationTraceHtml = (obs: PersonaTestResults['observations'][number]) => {
+    const test = obs.testId ? tests.get(obs.testId) : undefined;
+    const trace = test && artifactLinks.get(test.id)?.trace;
+    if (!test || !trace) return '';
+    return `<p class="observation-evidence">Trace: <a href="${escapeHtml(trace)}" title="Open with: npx playwright show-trace ${escapeHtml(
+      decodeURIComponent(trace)
+    )}">${escapeHtml(test.title)}</a>, ${formatElapsed(obs.timestamp, test.startTime)} into the test</p>`;
+  };
+
+  // List each test with its outcome and artifacts
+  const testsHtml = results.tests?.length
+    ? `
+    <h2>Tests</h2>
+    <div class="perf-table-wrap">
+      <table class="perf-table">
+        <thead><tr><th>Test</th><th>Status</th><th>Duration</th><th>Artifacts</th></tr></thead>
+        <tbody>${results.tests
+          .map(
+            (test) => `
+          <tr id="${test.id}">
+            <td class="perf-url">${escapeHtml(test.title)}</td>
+            <td class="${test.status === 'passed' ? 'perf--good' : test.status ? 'perf--poor' : 'perf--none'}">${
+              test.status ?? '—'
+            }</td>
+            <td>${test.duration !== undefined ? `${(test.duration / 1000).toFixed(1)}s` : '—'}</td>
+            <td>${artifactLinksHtml(artifactLinks.get(test.id)) || '—'}</td>
+          </tr>`
+          )
+          .join('')}
+        </tbody>
+      </table>
+    </div>
+  `
+    : '';
+
   // Generate observations HTML
   const observationsHtml = results.observations
     .map(
       (obs) => `
-    <div class="card observation observation--${obs.type}">
+    <div class="card observation observation--${obs.type}" id="${obs.id}">
       <div class="observation-header">
         <span class="badge badge--${obs.type}">${obs.type}</span>
+        ${obs.evidence ? `<span class="signal-tag">${SIGNAL_LABELS[obs.evidence.signal]}</span>` : ''}
         <span class="observation-location">${escapeHtml(obs.location)}</span>
       </div>
       <p class="observation-description">${escapeHtml(obs.description)}</p>
       ${obs.recommendation ? `<p class="observation-recommendation">Recommendation: ${escapeHtml(obs.recommendation)}</p>` : ''}
+      ${obs.evidence ? `<p class="observation-evidence">Detected: ${escapeHtml(formatSignalEvidence(obs.evidence))}</p>` : ''}
+      ${observationTraceHtml(obs)}
+      ${
+        obs.screenshotIds?.length
+          ? `<p class="observation-evidence">Evidence: ${obs.screenshotIds
+              .map((id) => `<a href="#${id}">${escapeHtml(screenshotNames.get(id) ?? id)}</a>`)
+              .join(', ')}</p>`
+          : ''
+      }
     </div>
   `
     )
     .join('');
 
+  // Baseline comparison outcome, or the screenshot a diff image belongs to
+  const baselineHtml = (ss: Screenshot) => {
+    if (ss.diffOf) {
+      return `<p class="screenshot-baseline">Baseline diff of <a href="#${ss.diffOf}">${escapeHtml(
+        screenshotNames.get(ss.diffOf) ?? ss.diffOf
+      )}</a></p>`;
+    }
+    const diff = ss.visualDiff;
+    if (!diff) return '';
+    const detail =
+      diff.status === 'resized' && diff.baselineSize
+        ? `, was ${diff.baselineSize.width}×${diff.baselineSize.height}`
+        : diff.diffRatio !== undefined && diff.diffPixels
+          ? `, ${(diff.diffRatio * 100).toFixed(2)}% of pixels`
+          : '';
+    const link = diff.diffId ? ` — <a href="#${diff.diffId}">diff</a>` : '';
+    return `<p class="screenshot-baseline baseline-${diff.status}">Baseline: ${diff.status}${detail}${link}</p>`;
+  };
+
+  // AI analysis findings for a screenshot
+  const findingsHtml = (ss: Screenshot) =>
+    ss.findings?.length
+      ? `<ul class="screenshot-findings">${ss.findings
+          .map(
+            (f) => `<li><span class="badge badge--${SEVERITY_BADGE[f.severity]}">${f.severity}</span> <strong>${
+              FINDING_CATEGORY_LABELS[f.category]
+            }:</strong> ${escapeHtml(f.description)}${f.batch ? ` <span class="finding-batch">batch ${f.batch}</span>` : ''}${
+              f.recommendation ? `<span class="finding-recommendation">${escapeHtml(f.recommendation)}</span>` : ''
+            }</li>`
+          )
+          .join('')}</ul>`
+      : '';
+
   // Generate screenshots HTML
-  const screenshotsHtml = results.screenshots
-    .map(
-      (ss) => `
-    <div class="screenshot">
-      <img src="data:image/png;base64,${ss.base64}" alt="${escapeHtml(ss.name)}" loading="lazy">
+  const screenshotHtml = (ss: Screenshot) => `
+    <div class="screenshot" id="${ss.id}">
+      ${
+        imageSrc.has(ss.id)
+          ? `<div class="screenshot-frame">
+        <img src="${imageSrc.get(ss.id)}" alt="${escapeHtml(ss.name)}" loading="lazy">
+        ${annotationsHtml(ss)}
+      </div>`
+          : `<div class="screenshot-missing">Image not found: ${escapeHtml(ss.ref || ss.filepath)}</div>`
+      }
       <div class="screenshot-info">
         <strong>${escapeHtml(ss.name)}</strong>
         <p>${escapeHtml(ss.context)}</p>
+        ${baselineHtml(ss)}
+        ${findingsHtml(ss)}
         <span class="screenshot-url">${escapeHtml(ss.url)}</span>
       </div>
     </div>
+  `;
+
+  // Screenshots from one multi-viewport capture are shown side by side
+  const screenshotGroups: Screenshot[][] = [];
+  for (const ss of results.screenshots) {
+    const group = ss.viewportGroup
+      ? screenshotGroups.find((g) => g[0]?.viewportGroup === ss.viewportGroup)
+      : undefined;
+    if (group) {
+      group.push(ss);
+    } else {
+      screenshotGroups.push([ss]);
+    }
+  }
+
+  const screenshotsHtml = screenshotGroups
+    .map((group) =>
+      group.length > 1 || group[0]?.viewport
+        ? `
+    <div class="viewport-set">
+      ${group
+        .map(
+          (ss) => `
+      <div class="viewport-item">
+        <div class="viewport-label">${escapeHtml(ss.viewport?.name ?? ss.name)}${
+          ss.viewport ? ` <span>${ss.viewport.width}×${ss.viewport.height}</span>` : ''
+        }</div>
+        ${screenshotHtml(ss)}
+      </div>`
+        )
+        .join('')}
+    </div>
   `
+        : group.map(screenshotHtml).join('')
     )
     .join('');
 
+  // Generate accessibility HTML
+  const audits = results.accessibility ?? [];
+  const impactCounts = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+  for (const audit of audits) {
+    for (const violation of audit.violations) {
+      impactCounts[violation.impact ?? 'minor']++;
+    }
+  }
+
+  const accessibilityHtml = audits.length
+    ? `
+    <h2>Accessibility</h2>
+    <div class="obs-counts">
+      <span class="obs-count obs-count--frustration">${impactCounts.critical} critical</span>
+      <span class="obs-count obs-count--frustration">${impactCounts.serious} serious</span>
+      <span class="obs-count obs-count--confusion">${impactCounts.moderate} moderate</span>
+      <span class="obs-count obs-count--note">${impactCounts.minor} minor</span>
+    </div>
+    ${audits
+      .map(
+        (audit) => `
+    <div class="card a11y-audit">
+      <div class="a11y-audit-header">
+        <span class="screenshot-url">${escapeHtml(audit.url)}${audit.scope ? ` — ${escapeHtml(audit.scope)}` : ''}</span>
+        <span class="task-duration">${audit.violations.length} violations · ${audit.passes} rules passed · ${audit.incomplete} need review</span>
+      </div>
+      ${audit.violations
+        .map(
+          (v) => `
+      <div class="a11y-violation">
+        <div class="observation-header">
+          <span class="badge badge--${IMPACT_BADGE[v.impact ?? 'minor']}">${v.impact ?? 'minor'}</span>
+          <a class="a11y-rule" href="${escapeHtml(v.helpUrl)}">${escapeHtml(v.id)}</a>
+          <span class="observation-location">${v.nodes.length} element${v.nodes.length === 1 ? '' : 's'}</span>
+        </div>
+        <p class="observation-description">${escapeHtml(v.help)}</p>
+        <ul class="a11y-targets">
+          ${v.nodes
+            .slice(0, 5)
+            .map((node) => `<li><code>${escapeHtml(node.target.join(' '))}</code></li>`)
+            .join('')}
+          ${v.nodes.length > 5 ? `<li>…and ${v.nodes.length - 5} more</li>` : ''}
+        </ul>
+      </div>`
+        )
+        .join('')}
+    </div>`
+      )
+      .join('')}
+  `
+    : '';
+
+  // Generate the AI analysis summary
+  const summary = results.summary;
+  const summaryListHtml = (title: string, items: string[]) =>
+    items.length
+      ? `<div class="persona-section">
+        <h3>${title}</h3>
+        <ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>
+      </div>`
+      : '';
+  const summaryHtml = summary
+    ? `
+    <h2>Summary</h2>
+    <div class="card summary">
+      <div class="summary-header">
+        ${summary.overallScore ? `<div class="summary-score">${escapeHtml(summary.overallScore)}</div>` : ''}
+        <div>
+          ${summary.executiveSummary ? `<p>${escapeHtml(summary.executiveSummary)}</p>` : ''}
+          ${summary.scoreRationale ? `<p class="summary-rationale">${escapeHtml(summary.scoreRationale)}</p>` : ''}
+          <div class="summary-issues">
+            <span class="badge badge--frustration">${summary.criticalIssues} critical</span>
+            <span class="badge badge--confusion">${summary.moderateIssues} moderate</span>
+            <span class="badge badge--note">${summary.minorIssues} minor</span>
+          </div>
+        </div>
+      </div>
+      <div class="persona-details">
+        ${summaryListHtml('Strengths', summary.strengths)}
+        ${summaryListHtml('Areas for Improvement', summary.areasForImprovement)}
+      </div>
+      ${
+        summary.recommendations?.length
+          ? `<div class="persona-section">
+        <h3>Recommendations</h3>
+        <ul>${summary.recommendations
+          .map(
+            (r) =>
+              `<li><span class="summary-priority">${RECOMMENDATION_PRIORITY_LABELS[r.priority]}</span> ${escapeHtml(r.text)}</li>`
+          )
+          .join('')}</ul>
+      </div>`
+          : ''
+      }
+      ${
+        summary.model
+          ? `<p class="summary-meta">Analyzed by ${escapeHtml(summary.model)}${
+              summary.batches ? ` in ${summary.batches} batches` : ''
+            }${summary.analyzedAt ? ` on ${escapeHtml(new Date(summary.analyzedAt).toLocaleString())}` : ''}</p>`
+          : ''
+      }
+    </div>
+  `
+    : '';
+
   // Generate goals list
   const goalsHtml = results.goals.map((g) => `<li>${escapeHtml(g)}</li>`).join('');
 
   // Generate behaviors list
   const behaviorsHtml = results.behaviors.map((b) => `<li>${escapeHtml(b)}</li>`).join('');
 
+  // Generate environment list
+  const environmentHtml = results.environment
+    ? describePersonaEnvironment(results.environment)
+        .map((line) => `<li>${escapeHtml(line)}</li>`)
+        .join('')
+    : '';
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>PersonaSpec Report: ${escapeHtml(results.persona)}</title>
-  <style>
-    :root {
-      --bg-base: #0D0F14;
-      --bg-surface: #161922;
-      --bg-elevated: #1E222D;
-      --text-primary: #F0F2F5;
-      --text-secondary: #9BA3B5;
-      --text-muted: #6B7280;
-      --accent-primary: #7C5CFF;
-      --accent-success: #5CFFB4;
-      --accent-warning: #FFC75C;
-      --accent-error: #FF5C7C;
-      --border-subtle: rgba(255, 255, 255, 0.08);
-    }
-
-    * {
-      box-sizing: border-box;
-      margin: 0;
-      padding: 0;
-    }
-
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      background: var(--bg-base);
-      color: var(--text-primary);
-      line-height: 1.6;
-      padding: 2rem;
-    }
-
-    .container {
-      max-width: 1200px;
-      margin: 0 auto;
-    }
-
-    h1 {
-      font-size: 2rem;
-      font-weight: 700;
-      margin-bottom: 0.5rem;
-      background: linear-gradient(135deg, var(--accent-primary), #FF7C5C);
-      -webkit-background-clip: text;
-      -webkit-text-fill-color: transparent;
-      background-clip: text;
-    }
-
-    h2 {
-      font-size: 1.25rem;
-      font-weight: 600;
-      margin: 2rem 0 1rem;
-      color: var(--text-primary);
-    }
-
-    .subtitle {
-      color: var(--text-secondary);
+  <style>${BASE_STYLES}
+    .overview-link {
+      display: inline-block;
       margin-bottom: 1rem;
+      color: var(--accent-primary);
+      text-decoration: none;
+      font-size: 0.875rem;
     }
 
     .persona-details {
@@ -212,14 +803,6 @@ function generateHtml(results: PersonaTestResults): string {
       color: var(--accent-primary);
     }
 
-    .card {
-      background: var(--bg-surface);
-      border-radius: 12px;
-      padding: 1rem 1.25rem;
-      margin-bottom: 0.75rem;
-      border: 1px solid var(--border-subtle);
-    }
-
     .metrics {
       display: grid;
       grid-template-columns: repeat(auto-fill, minmax(140px, 1fr));
@@ -287,6 +870,7 @@ function generateHtml(results: PersonaTestResults): string {
 
     .task-status--success { color: var(--accent-success); }
     .task-status--failure { color: var(--accent-error); }
+    .task-status--abandoned { color: var(--accent-warning); }
 
     .task-name {
       font-weight: 500;
@@ -304,20 +888,298 @@ function generateHtml(results: PersonaTestResults): string {
       padding-left: 2.25rem;
     }
 
-    .badge {
-      display: inline-block;
-      padding: 0.25rem 0.75rem;
-      border-radius: 100px;
+    .task-parent {
+      color: var(--text-muted);
+      font-size: 0.875rem;
+      font-weight: 400;
+      text-decoration: none;
+    }
+
+    .task-failure {
+      color: var(--accent-error);
+      font-size: 0.875rem;
+      padding-left: 2.25rem;
+    }
+
+    .task-steps {
+      list-style: none;
+      padding-left: 2.25rem;
+      font-size: 0.875rem;
+    }
+
+    .task-step {
+      display: grid;
+      grid-template-columns: minmax(8rem, 14rem) 1fr 4rem;
+      align-items: center;
+      gap: 0.75rem;
+      padding: 0.2rem 0;
+    }
+
+    .task-step-name {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .task-step-bar {
+      height: 6px;
+      background: var(--bg-elevated);
+      border-radius: 3px;
+      overflow: hidden;
+    }
+
+    .task-step-bar span {
+      display: block;
+      height: 100%;
+      background: var(--accent-primary);
+    }
+
+    .task-step--failed .task-step-name {
+      color: var(--accent-error);
+    }
+
+    .task-step--failed .task-step-bar span {
+      background: var(--accent-error);
+    }
+
+    .task-step .task-duration {
+      text-align: right;
+    }
+
+    .task-evidence {
+      padding-left: 2.25rem;
+    }
+
+    .task-observations {
+      list-style: none;
+      font-size: 0.875rem;
+      margin-bottom: 0.5rem;
+    }
+
+    .task-observations li {
+      padding: 0.25rem 0;
+    }
+
+    .task-observations a,
+    .observation-evidence a {
+      color: var(--text-secondary);
+      text-decoration: none;
+    }
+
+    .task-observations a:hover,
+    .observation-evidence a:hover {
+      color: var(--text-primary);
+      text-decoration: underline;
+    }
+
+    .task-thumbs {
+      display: flex;
+      gap: 0.5rem;
+      flex-wrap: wrap;
+    }
+
+    .task-thumb {
+      display: block;
+      width: 120px;
+      border-radius: 6px;
+      overflow: hidden;
+      border: 1px solid var(--border-subtle);
+      color: var(--text-muted);
+      font-size: 0.75rem;
+      text-decoration: none;
+    }
+
+    .task-thumb img {
+      width: 100%;
+      display: block;
+    }
+
+    .observation-evidence {
+      color: var(--text-muted);
+      font-size: 0.875rem;
+      margin-top: 0.5rem;
+    }
+
+    .perf-table-wrap {
+      overflow-x: auto;
+      margin-bottom: 2rem;
+    }
+
+    .perf-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.875rem;
+    }
+
+    .perf-table th {
+      text-align: left;
+      font-size: 0.75rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--text-secondary);
+      padding: 0.5rem 0.75rem;
+    }
+
+    .perf-table td {
+      padding: 0.5rem 0.75rem;
+      border-top: 1px solid var(--border-subtle);
+      white-space: nowrap;
+    }
+
+    .perf-table .perf-url {
+      max-width: 28rem;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      color: var(--text-secondary);
+    }
+
+    .perf--good {
+      color: var(--accent-success);
+    }
+
+    .perf--needs-improvement {
+      color: var(--accent-warning);
+    }
+
+    .perf--poor {
+      color: var(--accent-error);
+    }
+
+    .perf--none {
+      color: var(--text-muted);
+    }
+
+    .a11y-audit-header {
+      display: flex;
+      justify-content: space-between;
+      gap: 1rem;
+      flex-wrap: wrap;
+      margin-bottom: 0.75rem;
+    }
+
+    .a11y-violation {
+      padding: 0.75rem 0;
+      border-top: 1px solid var(--border-subtle);
+    }
+
+    .a11y-rule {
+      color: var(--text-primary);
+      font-family: monospace;
+      text-decoration: none;
+    }
+
+    .a11y-rule:hover {
+      text-decoration: underline;
+    }
+
+    .error-group-header {
+      display: flex;
+      justify-content: space-between;
+      gap: 1rem;
+      margin-bottom: 0.75rem;
+    }
+
+    .error-item {
+      padding: 0.75rem 0;
+      border-top: 1px solid var(--border-subtle);
+    }
+
+    .error-summary {
+      font-family: monospace;
+      font-size: 0.875rem;
+      word-break: break-all;
+    }
+
+    .error-stack {
+      font-size: 0.75rem;
+      color: var(--text-muted);
+      white-space: pre-wrap;
+      margin-top: 0.5rem;
+    }
+
+    .timeline {
+      list-style: none;
+      max-height: 32rem;
+      overflow-y: auto;
+      margin-bottom: 2rem;
+      padding: 0.5rem 1rem;
+      background: var(--bg-elevated);
+      border: 1px solid var(--border-subtle);
+      border-radius: 8px;
+    }
+
+    .timeline-event {
+      display: flex;
+      align-items: flex-start;
+      gap: 0.75rem;
+      padding: 0.5rem 0 0.5rem 0.75rem;
+      border-left: 3px solid var(--border-subtle);
+      font-size: 0.875rem;
+    }
+
+    .timeline-event--error,
+    .timeline-event--frustration { border-left-color: var(--accent-error); }
+    .timeline-event--confusion { border-left-color: var(--accent-warning); }
+    .timeline-event--success { border-left-color: var(--accent-success); }
+    .timeline-event--note,
+    .timeline-event--taskStart,
+    .timeline-event--taskEnd { border-left-color: var(--accent-primary); }
+
+    .timeline-time {
+      flex: 0 0 4rem;
+      font-family: monospace;
+      color: var(--text-muted);
+    }
+
+    .timeline-kind {
+      flex: 0 0 6.5rem;
+      color: var(--text-muted);
       font-size: 0.75rem;
-      font-weight: 600;
       text-transform: uppercase;
       letter-spacing: 0.05em;
+      padding-top: 0.125rem;
+    }
+
+    .timeline-body {
+      flex: 1;
+      min-width: 0;
+      color: var(--text-secondary);
+      word-break: break-word;
+    }
+
+    .timeline-body a {
+      color: inherit;
+    }
+
+    .timeline-url {
+      display: block;
+      color: var(--text-muted);
+      font-size: 0.75rem;
+      word-break: break-all;
     }
 
-    .badge--success { background: rgba(92, 255, 180, 0.15); color: var(--accent-success); }
-    .badge--note { background: rgba(124, 92, 255, 0.15); color: var(--accent-primary); }
-    .badge--confusion { background: rgba(255, 199, 92, 0.15); color: var(--accent-warning); }
-    .badge--frustration { background: rgba(255, 92, 124, 0.15); color: var(--accent-error); }
+    .timeline-thumb {
+      flex: 0 0 6rem;
+      border: 1px solid var(--border-subtle);
+      border-radius: 4px;
+      overflow: hidden;
+    }
+
+    .timeline-thumb img {
+      width: 100%;
+      display: block;
+    }
+
+    .a11y-targets {
+      list-style: none;
+      margin-top: 0.5rem;
+      font-size: 0.75rem;
+      color: var(--text-muted);
+    }
+
+    .a11y-targets code {
+      font-family: monospace;
+    }
 
     .observation-header {
       display: flex;
@@ -326,6 +1188,14 @@ function generateHtml(results: PersonaTestResults): string {
       margin-bottom: 0.5rem;
     }
 
+    .signal-tag {
+      padding: 0.125rem 0.5rem;
+      border: 1px solid var(--border-subtle);
+      border-radius: 4px;
+      color: var(--text-secondary);
+      font-size: 0.75rem;
+    }
+
     .observation-location {
       color: var(--text-muted);
       font-size: 0.875rem;
@@ -361,6 +1231,47 @@ function generateHtml(results: PersonaTestResults): string {
       border-bottom: 1px solid var(--border-subtle);
     }
 
+    .screenshot-frame {
+      position: relative;
+      border-bottom: 1px solid var(--border-subtle);
+    }
+
+    .screenshot-frame img {
+      border-bottom: none;
+    }
+
+    .annotation {
+      position: absolute;
+      border: 2px dashed var(--accent-primary);
+      border-radius: 4px;
+      opacity: 0;
+      transition: opacity 0.15s ease;
+    }
+
+    .screenshot-frame:hover .annotation {
+      opacity: 1;
+    }
+
+    .annotation-label {
+      position: absolute;
+      left: -2px;
+      bottom: 100%;
+      padding: 0 0.375rem;
+      background: var(--accent-primary);
+      color: var(--text-primary);
+      font-size: 0.75rem;
+      border-radius: 3px;
+      white-space: nowrap;
+    }
+
+    .screenshot-missing {
+      padding: 3rem 1rem;
+      text-align: center;
+      color: var(--text-muted);
+      font-size: 0.875rem;
+      border-bottom: 1px solid var(--border-subtle);
+    }
+
     .screenshot-info {
       padding: 1rem;
     }
@@ -376,24 +1287,124 @@ function generateHtml(results: PersonaTestResults): string {
       margin-bottom: 0.5rem;
     }
 
+    .viewport-set {
+      grid-column: 1 / -1;
+      display: flex;
+      gap: 1rem;
+      align-items: flex-start;
+      overflow-x: auto;
+      padding-bottom: 0.5rem;
+    }
+
+    .viewport-item {
+      flex: 1 1 0;
+      min-width: 200px;
+    }
+
+    .viewport-label {
+      font-size: 0.75rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--text-secondary);
+      margin-bottom: 0.5rem;
+    }
+
+    .viewport-label span {
+      color: var(--text-muted);
+      text-transform: none;
+    }
+
     .screenshot-url {
       font-size: 0.75rem;
       color: var(--text-muted);
       font-family: monospace;
     }
 
-    .footer {
-      margin-top: 3rem;
-      padding-top: 2rem;
-      border-top: 1px solid var(--border-subtle);
-      text-align: center;
-      color: var(--text-muted);
+    .screenshot-info .screenshot-baseline {
+      font-size: 0.75rem;
+    }
+
+    .screenshot-baseline a {
+      color: var(--accent-primary);
+    }
+
+    .screenshot-info .baseline-match {
+      color: var(--accent-success);
+    }
+
+    .screenshot-info .baseline-changed,
+    .screenshot-info .baseline-resized {
+      color: var(--accent-warning);
+    }
+
+    .screenshot-findings {
+      list-style: none;
+      margin-bottom: 0.5rem;
       font-size: 0.875rem;
+      color: var(--text-secondary);
+    }
+
+    .screenshot-findings li {
+      padding: 0.25rem 0;
+    }
+
+    .finding-batch {
+      color: var(--text-muted);
+      font-size: 0.75rem;
+      white-space: nowrap;
+    }
+
+    .finding-recommendation {
+      display: block;
+      color: var(--text-muted);
+      font-size: 0.75rem;
+      margin-top: 0.125rem;
+    }
+
+    .summary-header {
+      display: flex;
+      gap: 1.5rem;
+      align-items: flex-start;
+      margin-bottom: 1.5rem;
     }
 
-    .footer a {
+    .summary-score {
+      font-size: 3rem;
+      font-weight: 700;
+      line-height: 1;
       color: var(--accent-primary);
-      text-decoration: none;
+      min-width: 4rem;
+      text-align: center;
+    }
+
+    .summary-rationale {
+      color: var(--text-secondary);
+      font-size: 0.875rem;
+      margin-top: 0.5rem;
+    }
+
+    .summary-issues {
+      display: flex;
+      gap: 0.5rem;
+      flex-wrap: wrap;
+      margin-top: 0.75rem;
+    }
+
+    .summary .persona-details {
+      margin-bottom: 1rem;
+    }
+
+    .summary-priority {
+      font-size: 0.75rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--text-muted);
+    }
+
+    .summary-meta {
+      color: var(--text-muted);
+      font-size: 0.875rem;
+      margin-top: 1rem;
     }
 
     @media (max-width: 768px) {
@@ -417,6 +1428,7 @@ function generateHtml(results: PersonaTestResults): string {
 </head>
 <body>
   <div class="container">
+    ${overviewHref ? `<a class="overview-link" href="${escapeHtml(overviewHref)}">← All personas</a>` : ''}
     <h1>${escapeHtml(results.persona)}</h1>
     <p class="subtitle">${escapeHtml(results.background)}</p>
 
@@ -429,20 +1441,39 @@ function generateHtml(results: PersonaTestResults): string {
         <h3>Behaviors</h3>
         <ul>${behaviorsHtml}</ul>
       </div>
+      ${
+        environmentHtml
+          ? `<div class="persona-section">
+        <h3>Environment</h3>
+        <ul>${environmentHtml}</ul>
+      </div>`
+          : ''
+      }
     </div>
 
+    ${summaryHtml}
+
     <h2>Session Metrics</h2>
     <div class="metrics">
       ${metricsHtml}
     </div>
+    ${performanceHtml}
+
+    ${errorsHtml}
+
+    ${timelineHtml}
 
     <h2>Observations</h2>
     ${observationCountsHtml}
     ${observationsHtml}
 
+    ${accessibilityHtml}
+
     <h2>Tasks</h2>
     ${tasksHtml}
 
+    ${testsHtml}
+
     <h2>Screenshots</h2>
     <div class="screenshot-grid">
       ${screenshotsHtml}
@@ -456,41 +1487,146 @@ function generateHtml(results: PersonaTestResults): string {
 </html>`;
 }
 
+/**
+ * Read a results file's images and artifacts and write its report.
+ */
+async function writeReport(
+  results: PersonaTestResults,
+  resultsPath: string,
+  output: string,
+  options: { copyArtifacts?: boolean; overviewHref?: string; imageMaxBytes?: number }
+): Promise<void> {
+  // Images are read on demand so results can reference the screenshot store
+  const resultsDir = path.dirname(resultsPath);
+  const budget = { ...REPORT_IMAGE_BUDGET, maxBytes: options.imageMaxBytes ?? REPORT_IMAGE_BUDGET.maxBytes };
+  const images: Array<PreparedImage | undefined> = [];
+  for (const ss of results.screenshots) {
+    const image = await readPreparedImage(ss, resultsDir, { budget });
+    if (image === 'unsupported') {
+      console.warn(`Warning: Screenshot "${ss.name}" is not a PNG or JPEG image`);
+    }
+    images.push(typeof image === 'string' ? undefined : image);
+  }
+
+  const reduced = images.filter((image): image is PreparedImage => !!image && !!formatImageReduction(image));
+  if (reduced.length > 0) {
+    const before = reduced.reduce((sum, image) => sum + image.original.bytes, 0);
+    const after = reduced.reduce((sum, image) => sum + image.data.length, 0);
+    console.log(
+      `  - ${reduced.length} images reduced to fit ${formatBytes(budget.maxBytes ?? 0)} (${formatBytes(before)} → ${formatBytes(after)})`
+    );
+  }
+
+  const { links, missing } = await linkTestArtifacts(
+    results.tests ?? [],
+    resultsDir,
+    path.dirname(path.resolve(output)),
+    options.copyArtifacts ?? false
+  );
+  if (links.size > 0) {
+    console.log(`  - traces and videos for ${links.size} tests${options.copyArtifacts ? ' (copied)' : ''}`);
+  }
+  for (const file of missing) {
+    console.warn(`Warning: Test artifact not found: ${file}`);
+  }
+
+  await fs.writeFile(output, generateHtml(results, images, links, options.overviewHref));
+}
+
+/**
+ * Expand glob patterns, keeping plain paths as given so missing files are
+ * reported by name.
+ */
+async function resolveResultsPaths(patterns: string[]): Promise<string[]> {
+  const paths: string[] = [];
+  for (const pattern of patterns) {
+    paths.push(...(isDynamicPattern(pattern) ? (await glob(pattern)).sort() : [pattern]));
+  }
+  return [...new Set(paths)];
+}
+
 export const reportCommand = new Command('report')
-  .description('Generate an HTML report from test results')
-  .argument('<results>', 'Path to results JSON file')
+  .description('Generate an HTML report from test results, or a combined report for several personas')
+  .argument('<results...>', 'Results JSON files or glob patterns')
   .option('-o, --output <file>', 'Output HTML file', 'report.html')
-  .action(async (resultsPath: string, options: { output: string }) => {
-    console.log(`Loading results from ${resultsPath}...`);
-
-    let results: PersonaTestResults;
-    try {
-      const content = await fs.readFile(resultsPath, 'utf-8');
-      results = JSON.parse(content);
-    } catch (error) {
-      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-        console.error(`Error: File not found: ${resultsPath}`);
-      } else if (error instanceof SyntaxError) {
-        console.error(`Error: Invalid JSON in ${resultsPath}`);
-      } else {
-        console.error(`Error reading results file: ${error}`);
-      }
+  .option(
+    '--copy-artifacts',
+    'Copy test traces and videos into an artifacts folder next to the report'
+  )
+  .option(
+    '--image-max-bytes <n>',
+    'Largest image to embed, in bytes; bigger images are re-encoded and scaled down',
+    String(REPORT_IMAGE_BUDGET.maxBytes)
+  )
+  .action(async (patterns: string[], options: { output: string; copyArtifacts?: boolean; imageMaxBytes: string }) => {
+    const imageMaxBytes = parseInt(options.imageMaxBytes, 10);
+    if (!(imageMaxBytes > 0)) {
+      console.error(`Error: --image-max-bytes must be a positive number, got "${options.imageMaxBytes}".`);
       process.exit(1);
     }
 
-    // Validate results structure
-    if (!results.persona || !results.observations) {
-      console.error('Error: Invalid PersonaSpec results file format');
+    const resultsPaths = await resolveResultsPaths(patterns);
+
+    if (resultsPaths.length === 0) {
+      console.error(`Error: No results files match: ${patterns.join(', ')}`);
       process.exit(1);
     }
+    await fs.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+
+    if (resultsPaths.length === 1) {
+      const [resultsPath = ''] = resultsPaths;
+      console.log(`Loading results from ${resultsPath}...`);
+
+      const results = await loadResultsOrExit(resultsPath);
+
+      console.log(`Generating report for: ${results.persona}`);
+      console.log(`  - ${results.tasks.length} tasks`);
+      console.log(`  - ${results.observations.length} observations`);
+      console.log(`  - ${results.screenshots.length} screenshots`);
+
+      await writeReport(results, resultsPath, options.output, {
+        copyArtifacts: options.copyArtifacts,
+        imageMaxBytes,
+      });
+      console.log(`\nReport generated: ${options.output}`);
+      return;
+    }
 
-    console.log(`Generating report for: ${results.persona}`);
-    console.log(`  - ${results.tasks.length} tasks`);
-    console.log(`  - ${results.observations.length} observations`);
-    console.log(`  - ${results.screenshots.length} screenshots`);
+    console.log(`Loading ${resultsPaths.length} results files...`);
+    const allResults: PersonaTestResults[] = [];
+    for (const resultsPath of resultsPaths) {
+      allResults.push(await loadResultsOrExit(resultsPath));
+    }
+
+    // Each persona gets its own page next to the overview: report-<persona>.html
+    const outputBase = options.output.replace(/\.html?$/, '');
+    const allocatePage = createIdAllocator();
+    const runs: AggregateRun[] = [];
+
+    for (const [index, results] of allResults.entries()) {
+      const resultsPath = resultsPaths[index] ?? '';
+      const slug = results.persona.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      const page = `${outputBase}-${allocatePage(slug)}.html`;
+
+      console.log(`Generating report for: ${results.persona}`);
+      await writeReport(results, resultsPath, page, {
+        copyArtifacts: options.copyArtifacts,
+        overviewHref: path.basename(options.output),
+        imageMaxBytes,
+      });
+      runs.push({
+        persona: results.persona,
+        source: resultsPath,
+        href: path.basename(page),
+      });
+    }
 
-    const html = generateHtml(results);
+    const aggregate = aggregateResults(allResults);
+    await fs.writeFile(options.output, generateAggregateHtml(aggregate, runs));
 
-    await fs.writeFile(options.output, html);
+    const personaCount = new Set(allResults.map((results) => results.persona)).size;
+    console.log(`\nCombined report for ${personasLabel(personaCount, runs.length)}:`);
+    console.log(`  - ${aggregate.pages.length} pages`);
+    console.log(`  - ${aggregate.sharedIssues.length} issues shared by several personas`);
     console.log(`\nReport generated: ${options.output}`);
   });
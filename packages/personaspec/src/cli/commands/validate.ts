@@ -0,0 +1,61 @@
+import { Command } from 'commander';
+import * as fs from 'node:fs/promises';
+import { migrateResults, RESULTS_SCHEMA_VERSION, validateResults } from '../../core/results.js';
+
+export const validateCommand = new Command('validate')
+  .description('Check results files against the PersonaSpec results schema')
+  .argument('<results...>', 'Paths to results JSON files')
+  .action(async (resultsPaths: string[]) => {
+    let invalidCount = 0;
+
+    for (const resultsPath of resultsPaths) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await fs.readFile(resultsPath, 'utf-8'));
+      } catch (error) {
+        invalidCount++;
+        if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+          console.log(`  ✗ ${resultsPath}: file not found`);
+        } else if (error instanceof SyntaxError) {
+          console.log(`  ✗ ${resultsPath}: invalid JSON (${error.message})`);
+        } else {
+          console.log(`  ✗ ${resultsPath}: ${error}`);
+        }
+        continue;
+      }
+
+      const fromVersion =
+        typeof raw === 'object' && raw !== null && 'schemaVersion' in raw ? raw.schemaVersion : 0;
+
+      let issues;
+      try {
+        issues = validateResults(migrateResults(raw));
+      } catch (error) {
+        invalidCount++;
+        console.log(`  ✗ ${resultsPath}: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+
+      const migrated =
+        fromVersion !== RESULTS_SCHEMA_VERSION
+          ? ` (upgraded from schema version ${fromVersion} when loaded)`
+          : '';
+
+      if (issues.length === 0) {
+        console.log(`  ✓ ${resultsPath}${migrated}`);
+        continue;
+      }
+
+      invalidCount++;
+      console.log(`  ✗ ${resultsPath}${migrated}`);
+      for (const issue of issues) {
+        console.log(`      ${issue.path} ${issue.message}`);
+      }
+    }
+
+    console.log(`\n${resultsPaths.length - invalidCount} valid, ${invalidCount} invalid`);
+
+    if (invalidCount > 0) {
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,109 @@
+/**
+ * Escape text for use in HTML content and attribute values.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * Theme variables and the styles shared by every HTML page the CLI writes:
+ * page layout, headings, cards, observation badges and the footer.
+ */
+export const BASE_STYLES = `
+    :root {
+      --bg-base: #0D0F14;
+      --bg-surface: #161922;
+      --bg-elevated: #1E222D;
+      --text-primary: #F0F2F5;
+      --text-secondary: #9BA3B5;
+      --text-muted: #6B7280;
+      --accent-primary: #7C5CFF;
+      --accent-success: #5CFFB4;
+      --accent-warning: #FFC75C;
+      --accent-error: #FF5C7C;
+      --border-subtle: rgba(255, 255, 255, 0.08);
+    }
+
+    * {
+      box-sizing: border-box;
+      margin: 0;
+      padding: 0;
+    }
+
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: var(--bg-base);
+      color: var(--text-primary);
+      line-height: 1.6;
+      padding: 2rem;
+    }
+
+    .container {
+      max-width: 1200px;
+      margin: 0 auto;
+    }
+
+    h1 {
+      font-size: 2rem;
+      font-weight: 700;
+      margin-bottom: 0.5rem;
+      background: linear-gradient(135deg, var(--accent-primary), #FF7C5C);
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+      background-clip: text;
+    }
+
+    h2 {
+      font-size: 1.25rem;
+      font-weight: 600;
+      margin: 2rem 0 1rem;
+      color: var(--text-primary);
+    }
+
+    .subtitle {
+      color: var(--text-secondary);
+      margin-bottom: 1rem;
+    }
+
+    .card {
+      background: var(--bg-surface);
+      border-radius: 12px;
+      padding: 1rem 1.25rem;
+      margin-bottom: 0.75rem;
+      border: 1px solid var(--border-subtle);
+    }
+
+    .badge {
+      display: inline-block;
+      padding: 0.25rem 0.75rem;
+      border-radius: 100px;
+      font-size: 0.75rem;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+    }
+
+    .badge--success { background: rgba(92, 255, 180, 0.15); color: var(--accent-success); }
+    .badge--note { background: rgba(124, 92, 255, 0.15); color: var(--accent-primary); }
+    .badge--confusion { background: rgba(255, 199, 92, 0.15); color: var(--accent-warning); }
+    .badge--frustration { background: rgba(255, 92, 124, 0.15); color: var(--accent-error); }
+
+    .footer {
+      margin-top: 3rem;
+      padding-top: 2rem;
+      border-top: 1px solid var(--border-subtle);
+      text-align: center;
+      color: var(--text-muted);
+      font-size: 0.875rem;
+    }
+
+    .footer a {
+      color: var(--accent-primary);
+      text-decoration: none;
+    }
+`;
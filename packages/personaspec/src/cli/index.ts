@@ -2,6 +2,12 @@ import { Command } from 'commander';
 import { initCommand } from './commands/init.js';
 import { analyzeCommand } from './commands/analyze.js';
 import { reportCommand } from './commands/report.js';
+import { mergeCommand } from './commands/merge.js';
+import { personaCommand } from './commands/persona.js';
+import { validateCommand } from './commands/validate.js';
+import { packCommand } from './commands/pack.js';
+import { baselineCommand } from './commands/baseline.js';
+import { diffCommand } from './commands/diff.js';
 
 const program = new Command();
 
@@ -13,5 +19,11 @@ program
 program.addCommand(initCommand);
 program.addCommand(analyzeCommand);
 program.addCommand(reportCommand);
+program.addCommand(mergeCommand);
+program.addCommand(personaCommand);
+program.addCommand(validateCommand);
+program.addCommand(packCommand);
+program.addCommand(baselineCommand);
+program.addCommand(diffCommand);
 
 program.parse();
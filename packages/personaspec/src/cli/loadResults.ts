@@ -0,0 +1,26 @@
+import { readResults, ResultsValidationError } from '../core/results.js';
+import type { PersonaTestResults } from '../core/types.js';
+
+/**
+ * Read a results file for a CLI command, printing a helpful error and
+ * exiting if it is missing, malformed or doesn't match the schema.
+ */
+export async function loadResultsOrExit(resultsPath: string): Promise<PersonaTestResults> {
+  try {
+    return await readResults(resultsPath);
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      console.error(`Error: File not found: ${resultsPath}`);
+    } else if (error instanceof SyntaxError) {
+      console.error(`Error: Invalid JSON in ${resultsPath}`);
+    } else if (error instanceof ResultsValidationError) {
+      console.error(`Error: Invalid PersonaSpec results file format: ${resultsPath}`);
+      for (const issue of error.issues) {
+        console.error(`  ${issue.path} ${issue.message}`);
+      }
+    } else {
+      console.error(`Error reading results file: ${error instanceof Error ? error.message : error}`);
+    }
+    process.exit(1);
+  }
+}
@@ -2,15 +2,143 @@ import type { Page } from '@playwright/test';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type {
+  AccessibilityAudit,
+  AccessibilityAuditOptions,
   CollectorConfig,
   Observation,
   ObservationType,
   ObservationSeverity,
   PersonaTestResults,
   Screenshot,
+  NamedViewport,
+  PagePerformance,
+  ScreenshotOptions,
+  ScreenshotRegion,
+  SessionError,
   SessionMetrics,
+  TaskFailure,
   TaskResult,
+  TaskStep,
+  TestArtifactSource,
+  TestRun,
+  TimelineEvent,
+  TimelineEventKind,
 } from './types.js';
+import { IMPACT_TO_OBSERVATION, runAccessibilityAudit } from './accessibility.js';
+import {
+  baselinePath,
+  compareWithBaseline,
+  isPng,
+  resolveVisualBaseline,
+  type ResolvedVisualBaseline,
+} from './baseline.js';
+import { captureScreenshot } from './capture.js';
+import { formatSessionError } from './errors.js';
+import { createIdAllocator, recordIds } from './ids.js';
+import { RESULTS_SCHEMA_VERSION } from './results.js';
+import {
+  describeTaskFailure,
+  TaskAbandonedError,
+  TaskEndedError,
+  type TaskContext,
+  type TaskOptions,
+} from './task.js';
+import { viewportPresets, type ViewportPresetName } from './viewports.js';
+import { rebaseScreenshotRefs, SCREENSHOT_STORE_DIR, storeImage } from './screenshotStore.js';
+import {
+  INTERACTION_BINDING,
+  INTERACTION_SCRIPT,
+  type InteractionDetail,
+  type PageInteraction,
+} from './instrument.js';
+import {
+  createSignalDetector,
+  resolveFrustrationDetectors,
+  SIGNAL_BINDING,
+  signalScript,
+  type DetectedSignal,
+  type PageSignal,
+  type ResolvedFrustrationDetectors,
+  type SignalDetector,
+} from './signals.js';
+import {
+  DEFAULT_PERFORMANCE_THRESHOLDS,
+  exceededThresholds,
+  PERFORMANCE_BINDING,
+  PERFORMANCE_SCRIPT,
+  readPerformanceSnapshot,
+  trackTransferSize,
+  type PerformanceSnapshot,
+  type TransferSizeTracker,
+} from './performance.js';
+
+/**
+ * Metrics that can be tracked both manually and by instrumentation.
+ */
+type TrackedMetric = 'pagesVisited' | 'clickCount' | 'searchCount' | 'backNavCount';
+
+/**
+ * Records that are linked to the task in progress.
+ */
+type TaskRecord = Observation | Screenshot | SessionError | TimelineEvent;
+
+/**
+ * A task in progress. Scoped tasks know their ID up front; tasks started
+ * with `startTask()` get one when they are recorded.
+ */
+interface OpenTask {
+  id?: string;
+  start: number;
+  records: TaskRecord[];
+  manual: boolean;
+  startEvent?: TimelineEvent;
+}
+
+/**
+ * How close (in ms) a manual and an automatic event must be to count as the
+ * same interaction.
+ */
+const DEDUPE_WINDOW_MS = 2000;
+
+const INTERACTION_METRICS: Record<Exclude<PageInteraction, 'forwardNav'>, TrackedMetric> = {
+  click: 'clickCount',
+  search: 'searchCount',
+  backNav: 'backNavCount',
+};
+
+const METRIC_EVENTS: Record<TrackedMetric, TimelineEventKind> = {
+  pagesVisited: 'navigation',
+  clickCount: 'click',
+  searchCount: 'search',
+  backNavCount: 'back',
+};
+
+const ERROR_EVENT_LABELS: Record<SessionError['kind'], string> = {
+  console: 'Console error',
+  pageError: 'Uncaught exception',
+  httpError: 'HTTP error',
+  requestFailed: 'Request failed',
+};
+
+/**
+ * Timeline description of an interaction, using the page's details when
+ * instrumentation provided them.
+ */
+function describeInteraction(metric: TrackedMetric, detail: InteractionDetail = {}): string {
+  switch (metric) {
+    case 'pagesVisited':
+      return 'Page load';
+    case 'clickCount':
+      if (detail.element) {
+        return detail.text ? `Clicked "${detail.text}" (${detail.element})` : `Clicked ${detail.element}`;
+      }
+      return 'Click';
+    case 'searchCount':
+      return detail.query ? `Searched for "${detail.query}"` : 'Search';
+    case 'backNavCount':
+      return 'Back navigation';
+  }
+}
 
 /**
  * Collects observations, screenshots, and metrics during persona-driven tests.
@@ -38,18 +166,45 @@ import type {
  * ```
  */
 export class ObservationCollector {
-  private config: Required<CollectorConfig>;
+  private config: Required<Omit<CollectorConfig, 'workerId' | 'project'>> &
+    Pick<CollectorConfig, 'workerId' | 'project'>;
   private observations: Observation[] = [];
   private screenshots: Screenshot[] = [];
   private tasks: TaskResult[] = [];
+  private accessibility: AccessibilityAudit[] = [];
   private metrics: SessionMetrics;
-  private currentTaskStart?: number;
+  private openTasks: OpenTask[] = [];
+  private allocateId = createIdAllocator();
+  private instrumentedPages = new WeakSet<Page>();
+  private errorWatchedPages = new WeakSet<Page>();
+  private unmatchedEvents: Array<{
+    metric: TrackedMetric;
+    source: 'auto' | 'manual';
+    time: number;
+    event: TimelineEvent;
+  }> = [];
+  private timeline: TimelineEvent[] = [];
+  private currentUrl: string | undefined;
+  private tests: Array<{ run: TestRun; source: TestArtifactSource }> = [];
+  private currentTestId: string | undefined;
+  private networkTrackers = new WeakMap<Page, TransferSizeTracker>();
+  private pageLoads = new Map<
+    string,
+    { page: Page; performance: PagePerformance; networkBytes?: () => number; closed: boolean }
+  >();
+  private detectors: ResolvedFrustrationDetectors;
+  private signals: SignalDetector;
+  private signalObservations = new Map<string, Observation>();
+  private visualBaseline: ResolvedVisualBaseline | undefined;
 
   constructor(config: CollectorConfig) {
     this.config = {
-      includeBase64: true,
       screenshotFormat: 'png',
+      screenshotStore: false,
+      performanceThresholds: DEFAULT_PERFORMANCE_THRESHOLDS,
+      visualBaseline: false,
       ...config,
+      includeBase64: config.includeBase64 ?? !config.screenshotStore,
     };
 
     this.metrics = {
@@ -60,122 +215,871 @@ export class ObservationCollector {
       backNavCount: 0,
       consoleErrors: [],
     };
+
+    this.detectors = resolveFrustrationDetectors(config.persona.frustrationDetectors);
+    this.signals = createSignalDetector(this.detectors, (signal) => this.recordSignal(signal));
+    this.visualBaseline = resolveVisualBaseline(config.visualBaseline);
   }
 
   /**
    * Capture a screenshot with context for AI analysis.
    *
+   * With `visualBaseline` on, PNG screenshots are compared with the baseline
+   * of the same persona and name. Differences over the threshold are saved
+   * as a diff screenshot and raise a `note` observation linking both.
+   *
    * @param page - Playwright page object
    * @param name - Descriptive name for the screenshot (used in filename)
    * @param context - Explanation of what the user was doing/seeing
+   * @param options - Capture the full page or one element, highlight elements
+   *   and mask elements from baseline comparison
    * @returns The captured screenshot metadata
+   *
+   * @example
+   * ```typescript
+   * await collector.screenshot(page, 'pricing-cta', 'Looking for the upgrade button', {
+   *   highlight: { locator: page.getByRole('button', { name: 'Upgrade' }), label: 'Hidden CTA' },
+   * });
+   * ```
    */
-  async screenshot(page: Page, name: string, context: string): Promise<Screenshot> {
+  async screenshot(
+    page: Page,
+    name: string,
+    context: string,
+    options: ScreenshotOptions = {}
+  ): Promise<Screenshot> {
     const timestamp = new Date().toISOString();
-    const safeName = name.replace(/[^a-zA-Z0-9-_]/g, '-');
-    const filename = `${safeName}-${Date.now()}.${this.config.screenshotFormat}`;
-    const screenshotDir = path.join(this.config.outputDir, 'screenshots');
-    const filepath = path.join(screenshotDir, filename);
-
-    // Ensure directory exists
-    await fs.mkdir(screenshotDir, { recursive: true });
 
     // Take screenshot
-    const buffer = await page.screenshot({
-      type: this.config.screenshotFormat,
-      fullPage: false,
-    });
-
-    // Save to disk
-    await fs.writeFile(filepath, buffer);
+    const { buffer, capture, size, annotations, masks } = await captureScreenshot(
+      page,
+      options,
+      this.config.screenshotFormat
+    );
 
     const screenshot: Screenshot = {
+      id: this.allocateId(recordIds.screenshot(name)),
       name,
       context,
       url: page.url(),
       pageTitle: await page.title(),
-      filepath,
-      base64: this.config.includeBase64 ? buffer.toString('base64') : '',
+      ...(await this.saveImage(name, buffer)),
       timestamp,
+      capture,
+      ...(size && { size }),
+      ...(annotations.length > 0 && { annotations }),
     };
 
     this.screenshots.push(screenshot);
+    this.attachToCurrentTask(screenshot);
+    this.logEvent('screenshot', `Screenshot "${name}": ${context}`, {
+      url: screenshot.url,
+      recordId: screenshot.id,
+      timestamp,
+    });
+
+    if (this.visualBaseline && options.baseline !== false && isPng(buffer)) {
+      await this.compareWithBaseline(screenshot, buffer, this.visualBaseline, masks);
+    }
     return screenshot;
   }
 
+  /**
+   * Write image bytes to the screenshot store or the screenshots directory.
+   */
+  private async saveImage(
+    name: string,
+    buffer: Buffer
+  ): Promise<Pick<Screenshot, 'filepath' | 'base64' | 'hash' | 'ref'>> {
+    const base64 = this.config.includeBase64 ? buffer.toString('base64') : '';
+
+    if (this.config.screenshotStore) {
+      const storeDir = path.join(this.config.outputDir, SCREENSHOT_STORE_DIR);
+      const { hash, filepath } = await storeImage(storeDir, buffer, this.config.screenshotFormat);
+      return { filepath, base64, hash, ref: path.relative(this.config.outputDir, filepath) };
+    }
+
+    const safeName = name.replace(/[^a-zA-Z0-9-_]/g, '-');
+    const filename = `${safeName}-${Date.now()}.${this.config.screenshotFormat}`;
+    const screenshotDir = path.join(this.config.outputDir, 'screenshots');
+    const filepath = path.join(screenshotDir, filename);
+
+    // Save to disk
+    await fs.mkdir(screenshotDir, { recursive: true });
+    await fs.writeFile(filepath, buffer);
+    return { filepath, base64 };
+  }
+
+  /**
+   * Compare a screenshot with its baseline and record the outcome on it. A
+   * change over the threshold saves a `<name>-diff` screenshot and raises a
+   * `note` observation.
+   */
+  private async compareWithBaseline(
+    screenshot: Screenshot,
+    image: Buffer,
+    options: ResolvedVisualBaseline,
+    masks: ScreenshotRegion[]
+  ): Promise<void> {
+    const persona = `${this.config.persona.name} - ${this.config.persona.role}`;
+    const baseline = baselinePath(options.dir, persona, screenshot.name, this.config.project);
+
+    let baselineImage: Buffer;
+    try {
+      baselineImage = await fs.readFile(baseline);
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        screenshot.visualDiff = { status: 'new', baseline };
+        return;
+      }
+      throw error;
+    }
+
+    const comparison = compareWithBaseline(image, baselineImage, options, masks, screenshot.size);
+    screenshot.visualDiff = {
+      status: comparison.status,
+      baseline,
+      ...(comparison.diffPixels !== undefined && {
+        diffPixels: comparison.diffPixels,
+        diffRatio: comparison.diffRatio,
+      }),
+      ...(comparison.status === 'resized' && { baselineSize: comparison.baselineSize }),
+      ...(masks.length + options.mask.length > 0 && { masks: [...options.mask, ...masks] }),
+    };
+    if (comparison.status === 'match') return;
+
+    const screenshotIds = [screenshot.id];
+    if (comparison.diffImage) {
+      const name = `${screenshot.name}-diff`;
+      const diff: Screenshot = {
+        id: this.allocateId(recordIds.screenshot(name)),
+        name,
+        context: `Pixels that differ from the baseline of "${screenshot.name}", in red`,
+        url: screenshot.url,
+        pageTitle: screenshot.pageTitle,
+        ...(await this.saveImage(name, comparison.diffImage)),
+        timestamp: new Date().toISOString(),
+        capture: screenshot.capture,
+        ...(screenshot.size && { size: screenshot.size }),
+        diffOf: screenshot.id,
+      };
+      this.screenshots.push(diff);
+      this.attachToCurrentTask(diff);
+      screenshot.visualDiff.diffId = diff.id;
+      screenshotIds.push(diff.id);
+    }
+
+    const { size, baselineSize } = comparison;
+    const description =
+      comparison.status === 'resized'
+        ? `"${screenshot.name}" is ${size.width}×${size.height} but its visual baseline is ${baselineSize.width}×${baselineSize.height}`
+        : `"${screenshot.name}" differs from its visual baseline: ${comparison.diffPixels} pixels (${(
+            (comparison.diffRatio ?? 0) * 100
+          ).toFixed(2)}%)`;
+    this.observe('note', description, screenshot.url, {
+      recommendation: 'If the change is intended, accept it with `personaspec baseline update`.',
+      screenshotIds,
+    });
+  }
+
+  /**
+   * Capture the same screen at several viewport sizes.
+   *
+   * Resizes the page through each breakpoint, captures a screenshot named
+   * `<name>-<breakpoint>`, then restores the original size. Every size is
+   * added to `viewportsTested`, and the screenshots share a `viewportGroup`
+   * so the report can show them side by side.
+   *
+   * @param page - Playwright page object
+   * @param name - Descriptive name for the screenshots
+   * @param context - Explanation of what the user was doing/seeing
+   * @param viewports - Breakpoints to capture, or a preset name from `viewportPresets`
+   * @param options - Screenshot options applied at every breakpoint
+   * @returns The captured screenshots, in breakpoint order
+   */
+  async screenshotAcrossViewports(
+    page: Page,
+    name: string,
+    context: string,
+    viewports: NamedViewport[] | ViewportPresetName = 'designReviewer',
+    options: ScreenshotOptions = {}
+  ): Promise<Screenshot[]> {
+    const breakpoints = typeof viewports === 'string' ? viewportPresets[viewports] : viewports;
+    const originalSize = page.viewportSize();
+    const captured: Screenshot[] = [];
+
+    try {
+      for (const viewport of breakpoints) {
+        await page.setViewportSize({ width: viewport.width, height: viewport.height });
+        // Let layout and responsive images settle for a couple of frames
+        await page.evaluate('new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)))');
+
+        const screenshot = await this.screenshot(page, `${name}-${viewport.name}`, context, options);
+        screenshot.viewport = { name: viewport.name, width: viewport.width, height: viewport.height };
+        captured.push(screenshot);
+        screenshot.viewportGroup = captured[0]?.id;
+
+        const size = `${viewport.width}x${viewport.height}`;
+        this.metrics.viewportsTested ??= [];
+        if (!this.metrics.viewportsTested.includes(size)) {
+          this.metrics.viewportsTested.push(size);
+        }
+      }
+    } finally {
+      if (originalSize) {
+        await page.setViewportSize(originalSize);
+      }
+    }
+
+    return captured;
+  }
+
   /**
    * Record an observation during testing.
    *
    * @param type - One of: 'success', 'note', 'confusion', 'frustration'
    * @param description - What was observed
    * @param location - Where in the app (e.g., "Homepage hero", "Settings page")
-   * @param options - Optional severity and recommendation
+   * @param options - Optional severity, recommendation and screenshots that evidence it
+   * @returns The recorded observation
+   *
+   * @example
+   * ```typescript
+   * const shot = await collector.screenshot(page, 'pricing', 'Scanning the pricing table');
+   * collector.observe('confusion', 'Plan limits are hidden in tooltips', 'Pricing page', {
+   *   screenshotIds: [shot.id],
+   * });
+   * ```
    */
   observe(
     type: ObservationType,
     description: string,
     location: string,
-    options?: { severity?: ObservationSeverity; recommendation?: string }
-  ): void {
-    this.observations.push({
+    options?: {
+      severity?: ObservationSeverity;
+      recommendation?: string;
+      screenshotIds?: string[];
+    }
+  ): Observation {
+    const observation: Observation = {
+      id: this.allocateId(recordIds.observation({ type, location, description })),
       type,
       description,
       location,
       timestamp: new Date().toISOString(),
       ...options,
-    });
+      ...(this.currentTestId && { testId: this.currentTestId }),
+    };
+
+    this.observations.push(observation);
+    this.attachToCurrentTask(observation);
+    this.logEvent('observation', `${type}: ${description}`, { recordId: observation.id });
+    return observation;
+  }
+
+  /**
+   * Run an accessibility audit with the bundled axe-core and record each
+   * violation as an observation.
+   *
+   * Observation type and severity follow the violation's impact
+   * (critical/serious: frustration, moderate: confusion, minor: note), and
+   * the rule's help text becomes the recommendation. The raw findings are
+   * saved in the results' `accessibility` list.
+   *
+   * @param page - Playwright page object
+   * @param options - Scope, rules and impact threshold
+   * @returns The audit findings
+   *
+   * @example
+   * ```typescript
+   * const audit = await collector.auditAccessibility(page, { location: 'Signup form' });
+   * expect(audit.violations.filter((v) => v.impact === 'critical')).toHaveLength(0);
+   * ```
+   */
+  async auditAccessibility(
+    page: Page,
+    options: AccessibilityAuditOptions = {}
+  ): Promise<AccessibilityAudit> {
+    const audit = await runAccessibilityAudit(page, options);
+    const location = options.location ?? audit.url;
+
+    for (const violation of audit.violations) {
+      const { type, severity } = IMPACT_TO_OBSERVATION[violation.impact ?? 'minor'];
+      const count = violation.nodes.length;
+      const observation = this.observe(
+        type,
+        `${violation.description} (${violation.id}, ${count} element${count === 1 ? '' : 's'})`,
+        location,
+        { severity, recommendation: `${violation.help}. See ${violation.helpUrl}` }
+      );
+      violation.observationId = observation.id;
+    }
+
+    this.accessibility.push(audit);
+    return audit;
+  }
+
+  /**
+   * Run a task: time it, record whether the persona completed it, and link
+   * everything recorded while it runs.
+   *
+   * The task completes if the body returns, fails if it throws, and is
+   * abandoned if it calls `t.abandon()` or runs past its time budget. A
+   * failed task's error is rethrown once the task is recorded, unless
+   * `rethrow` is false; check the returned result to fail the test on an
+   * abandoned task. Tasks can be nested; records are linked to the
+   * innermost one.
+   *
+   * An abandoned body can't be stopped from outside: it keeps running until
+   * its next `t.step()` (which throws) or until it checks `t.signal`.
+   *
+   * @param name - Name of the task
+   * @param body - The persona's attempt at the task
+   * @param options - Time budget, and whether to rethrow errors
+   * @returns The recorded task result
+   *
+   * @example
+   * ```typescript
+   * const result = await collector.task('find pricing', async (t) => {
+   *   await t.step('open menu', () => page.getByRole('button', { name: 'Menu' }).click());
+   *   await t.step('go to pricing', () => page.getByRole('link', { name: 'Pricing' }).click());
+   *   if (!(await page.getByText('per month').isVisible())) t.abandon('Prices not shown');
+   * }, { budget: 30_000 });
+   * expect(result.outcome).toBe('completed');
+   * ```
+   */
+  async task(
+    name: string,
+    body: (t: TaskContext) => Promise<void> | void,
+    options: TaskOptions = {}
+  ): Promise<TaskResult> {
+    const parentId = this.currentTaskId();
+    const open: OpenTask = {
+      id: this.allocateId(recordIds.task(name)),
+      start: Date.now(),
+      records: [],
+      manual: false,
+    };
+    this.openTasks.push(open);
+    this.logEvent('taskStart', `Started "${name}"`, { recordId: open.id, taskId: open.id });
+
+    const controller = new AbortController();
+    const steps: TaskStep[] = [];
+    const notes: string[] = [];
+    let runningStep: { name: string; start: number } | undefined;
+    let stepFailure: { error: unknown; failure: TaskFailure } | undefined;
+    let failure: TaskFailure | undefined;
+    let thrown: { error: unknown } | undefined;
+
+    const context: TaskContext = {
+      id: open.id!,
+      signal: controller.signal,
+      step: async (stepName, stepBody) => {
+        if (controller.signal.aborted) throw new TaskEndedError(name);
+        const outerStep = runningStep;
+        const start = Date.now();
+        runningStep = { name: stepName, start };
+        try {
+          const value = await stepBody();
+          if (!controller.signal.aborted) {
+            steps.push({ name: stepName, success: true, duration: Date.now() - start });
+          }
+          return value;
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            // Keep the innermost step an error came from
+            if (stepFailure?.error !== error) {
+              stepFailure = { error, failure: describeTaskFailure(error, stepName) };
+            }
+            steps.push({
+              name: stepName,
+              success: false,
+              duration: Date.now() - start,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+          throw error;
+        } finally {
+          runningStep = outerStep;
+        }
+      },
+      note: (text) => {
+        notes.push(text);
+      },
+      abandon: (reason) => {
+        throw new TaskAbandonedError(reason);
+      },
+    };
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const run = Promise.resolve().then(() => body(context));
+      if (options.budget === undefined) {
+        await run;
+      } else {
+        // The body may still reject after the budget has run out
+        run.catch(() => {});
+        const budget = options.budget;
+        const timedOut = await Promise.race([
+          run.then(() => false),
+          new Promise<true>((resolve) => {
+            timer = setTimeout(() => resolve(true), budget);
+          }),
+        ]);
+        if (timedOut) {
+          failure = {
+            reason: 'timeBudget',
+            message: `Ran past the ${budget / 1000}s time budget`,
+            ...(runningStep && { step: runningStep.name }),
+          };
+          if (runningStep) {
+            steps.push({
+              name: runningStep.name,
+              success: false,
+              duration: Date.now() - runningStep.start,
+              error: 'Time budget ran out',
+            });
+          }
+        }
+      }
+    } catch (error) {
+      // A failing step has already described the error with its step name
+      failure =
+        stepFailure && stepFailure.error === error ? stepFailure.failure : describeTaskFailure(error);
+      if (failure.reason !== 'gaveUp') thrown = { error };
+    } finally {
+      clearTimeout(timer);
+      controller.abort();
+      this.openTasks.splice(this.openTasks.indexOf(open), 1);
+    }
+
+    const outcome: TaskResult['outcome'] = !failure
+      ? 'completed'
+      : failure.reason === 'timeBudget' || failure.reason === 'gaveUp'
+        ? 'abandoned'
+        : 'failed';
+
+    const result: TaskResult = {
+      id: open.id!,
+      name,
+      success: outcome === 'completed',
+      duration: Date.now() - open.start,
+      notes: notes.join('\n'),
+      timestamp: new Date().toISOString(),
+      outcome,
+      ...(failure && { failure }),
+      ...(steps.length > 0 && { steps }),
+      ...(options.budget !== undefined && { budget: options.budget }),
+      ...(parentId && { parentId }),
+      ...(this.currentTestId && { testId: this.currentTestId }),
+    };
+    for (const record of open.records) {
+      record.taskId = result.id;
+    }
+
+    this.tasks.push(result);
+    this.logEvent(
+      'taskEnd',
+      `${outcome === 'completed' ? 'Completed' : outcome === 'failed' ? 'Failed' : 'Abandoned'} "${name}"${
+        failure ? `: ${failure.message}` : ''
+      }`,
+      { recordId: result.id, taskId: result.id }
+    );
+
+    if (thrown && options.rethrow !== false) throw thrown.error;
+    return result;
   }
 
   /**
    * Start timing a task. Call this at the beginning of each task test.
    */
   startTask(): void {
-    this.currentTaskStart = Date.now();
+    // Starting again restarts the task in progress
+    if (this.openTasks[this.openTasks.length - 1]?.manual) {
+      const restarted = this.openTasks.pop();
+      this.timeline = this.timeline.filter((event) => event !== restarted?.startEvent);
+    }
+    const open: OpenTask = { start: Date.now(), records: [], manual: true };
+    this.openTasks.push(open);
+    // Named and linked when the task is recorded
+    open.startEvent = this.logEvent('taskStart', 'Started a task');
   }
 
   /**
    * Record a completed task with its results.
    *
+   * Observations and screenshots recorded since `startTask()` are linked to
+   * the task through their `taskId`.
+   *
    * @param name - Name of the task (should match test name)
    * @param success - Whether the task was completed successfully
    * @param notes - Notes about the task execution
    * @returns The recorded task result
    */
   recordTask(name: string, success: boolean, notes: string): TaskResult {
-    const duration = this.currentTaskStart ? Date.now() - this.currentTaskStart : 0;
+    const open = this.openTasks[this.openTasks.length - 1]?.manual ? this.openTasks.pop() : undefined;
+    const parentId = this.currentTaskId();
+
+    const result: TaskResult = {
+      id: this.allocateId(recordIds.task(name)),
+      name,
+      success,
+      duration: open ? Date.now() - open.start : 0,
+      notes,
+      timestamp: new Date().toISOString(),
+      ...(parentId && { parentId }),
+      ...(this.currentTestId && { testId: this.currentTestId }),
+    };
+    for (const record of open?.records ?? []) {
+      record.taskId = result.id;
+    }
+    if (open?.startEvent) {
+      open.startEvent.description = `Started "${name}"`;
+      open.startEvent.recordId = result.id;
+    }
 
-    const result: TaskResult = { name, success, duration, notes };
     this.tasks.push(result);
-    this.currentTaskStart = undefined;
+    this.logEvent('taskEnd', `${success ? 'Completed' : 'Failed'} "${name}"`, {
+      recordId: result.id,
+      taskId: result.id,
+    });
     return result;
   }
 
+  /**
+   * ID of the innermost scoped task in progress, if any.
+   */
+  private currentTaskId(): string | undefined {
+    return [...this.openTasks].reverse().find((open) => open.id)?.id;
+  }
+
+  /**
+   * Start recording which Playwright test the session is in. Tasks and
+   * observations recorded until `endTest()` are linked to it, and its trace
+   * and video are saved with the results.
+   *
+   * Playwright only attaches the trace and video once the test has finished,
+   * so they are read from `testInfo` when the results are saved. Which
+   * artifacts exist depends on the `trace` and `video` settings in your
+   * Playwright config. The `personaTest` fixture calls this for you.
+   *
+   * @param testInfo - Playwright's `testInfo` for the running test
+   * @returns The test record
+   *
+   * @example
+   * ```typescript
+   * test.beforeEach(async ({}, testInfo) => collector.beginTest(testInfo));
+   * test.afterEach(() => collector.endTest());
+   * ```
+   */
+  beginTest(testInfo: TestArtifactSource): TestRun {
+    const title = testInfo.titlePath?.slice(1).join(' › ') || testInfo.title;
+    const run: TestRun = {
+      id: this.allocateId(recordIds.test(title)),
+      title,
+      startTime: new Date().toISOString(),
+      ...(testInfo.retry && { retry: testInfo.retry }),
+    };
+
+    this.tests.push({ run, source: testInfo });
+    this.currentTestId = run.id;
+    return run;
+  }
+
+  /**
+   * Stop linking records to the test started with `beginTest()`. A long
+   * idle period still going on is reported as part of the test.
+   */
+  endTest(): void {
+    this.signals.flush();
+    this.currentTestId = undefined;
+  }
+
+  /**
+   * Fill in each test's outcome and the trace and video files Playwright
+   * attached to it, skipping files that were deleted (e.g. by
+   * `retain-on-failure` for passing tests).
+   */
+  private async collectTestArtifacts(): Promise<TestRun[]> {
+    const exists = (file: string) =>
+      fs.access(file).then(
+        () => true,
+        () => false
+      );
+
+    return Promise.all(
+      this.tests.map(async ({ run, source }) => {
+        const trace = source.attachments.find((a) => a.name === 'trace' && a.path)?.path;
+        const video = source.attachments.find((a) => a.contentType.startsWith('video/') && a.path)?.path;
+        return {
+          ...run,
+          ...(source.status && { status: source.status }),
+          ...(source.duration !== undefined && source.status && { duration: source.duration }),
+          ...(trace && (await exists(trace)) && { trace }),
+          ...(video && (await exists(video)) && { video }),
+        };
+      })
+    );
+  }
+
+  /**
+   * Add an event to the session timeline. Events are linked to the task in
+   * progress unless a `taskId` is given.
+   */
+  private logEvent(
+    kind: TimelineEventKind,
+    description: string,
+    details: Partial<Pick<TimelineEvent, 'url' | 'recordId' | 'taskId' | 'timestamp'>> = {}
+  ): TimelineEvent {
+    const url = details.url ?? this.currentUrl;
+    const event: TimelineEvent = {
+      kind,
+      timestamp: details.timestamp ?? new Date().toISOString(),
+      description,
+      ...(url && { url }),
+      ...(details.recordId && { recordId: details.recordId }),
+      ...(details.taskId && { taskId: details.taskId }),
+    };
+
+    this.timeline.push(event);
+    if (!details.taskId) this.attachToCurrentTask(event);
+    return event;
+  }
+
+  /**
+   * Remember a record so it can be linked to the task in progress.
+   */
+  private attachToCurrentTask(record: TaskRecord): void {
+    this.openTasks[this.openTasks.length - 1]?.records.push(record);
+  }
+
+  /**
+   * Instrument a page so session metrics fill themselves in.
+   *
+   * Counts main-frame navigations, trusted clicks, search form submissions
+   * and back navigations (forward ones only feed thrashing). Manual
+   * `track*()` calls made around the same time as an automatic event are
+   * treated as the same interaction, so existing tests keep their counts.
+   *
+   * Also records errors as `watchErrors()` does, and measures each page
+   * load's Core Web Vitals (LCP, CLS and INP), time to first byte and
+   * transfer size into `session.performance`, raising a frustration
+   * observation for values over `performanceThresholds`.
+   *
+   * Unless the persona turns them off with `frustrationDetectors`, watches
+   * for rage clicks, dead clicks, back/forward thrashing, long idle periods
+   * and repeated identical searches, and raises a confusion or frustration
+   * observation with the `evidence` for each.
+   *
+   * @param page - Playwright page object
+   */
+  async instrument(page: Page): Promise<void> {
+    if (this.instrumentedPages.has(page)) return;
+    this.instrumentedPages.add(page);
+    this.watchErrors(page);
+    // Time between tests isn't idle time
+    this.signals.stopClock();
+
+    page.on('framenavigated', (frame) => {
+      if (frame === page.mainFrame() && frame.url() !== 'about:blank') {
+        this.track('pagesVisited', 'auto', frame.url());
+      }
+    });
+    page.on('close', () => {
+      this.closePageLoads(page);
+      this.signals.flush();
+    });
+
+    await page.exposeBinding(
+      INTERACTION_BINDING,
+      (_source, kind: PageInteraction, detail?: InteractionDetail) => {
+        // Going forward isn't a back navigation, but still counts towards thrashing
+        if (kind === 'forwardNav') {
+          this.currentUrl = page.url();
+          this.signals.backNav(page.url());
+          return;
+        }
+        const metric = INTERACTION_METRICS[kind];
+        if (metric) this.track(metric, 'auto', page.url(), detail);
+      }
+    );
+    await page.addInitScript(INTERACTION_SCRIPT);
+
+    const signalScriptSource = signalScript(this.detectors);
+    const detectorsOn = Object.values(this.detectors).some(Boolean);
+    if (detectorsOn) {
+      await page.exposeBinding(SIGNAL_BINDING, (_source, signal: PageSignal) => {
+        this.signals.page(signal);
+      });
+      await page.addInitScript(signalScriptSource);
+    }
+
+    // Network bytes come from CDP on Chromium, Resource Timing elsewhere
+    const network = await trackTransferSize(page);
+    if (network) this.networkTrackers.set(page, network);
+    await page.exposeBinding(PERFORMANCE_BINDING, (_source, snapshot: PerformanceSnapshot) => {
+      this.recordPerformance(page, snapshot);
+    });
+    await page.addInitScript(PERFORMANCE_SCRIPT);
+
+    // Cover the document that is already loaded
+    if (page.url() !== 'about:blank') {
+      await page.evaluate(INTERACTION_SCRIPT).catch(() => {});
+      if (detectorsOn) await page.evaluate(signalScriptSource).catch(() => {});
+      await page.evaluate(PERFORMANCE_SCRIPT).catch(() => {});
+    }
+  }
+
+  /**
+   * Read the latest performance metrics of an instrumented page's current
+   * page load without waiting for the page to report them.
+   *
+   * The `personaTest` fixture calls this before each test's page closes.
+   *
+   * @param page - Playwright page object
+   * @returns The current page load's metrics, or undefined if the page isn't instrumented
+   */
+  async measurePerformance(page: Page): Promise<PagePerformance | undefined> {
+    const snapshot = await readPerformanceSnapshot(page);
+    if (!snapshot) return undefined;
+    return this.recordPerformance(page, snapshot);
+  }
+
+  /**
+   * Update a page load's metrics from an in-page snapshot. A snapshot from a
+   * new document means the page's earlier loads are over.
+   */
+  private recordPerformance(page: Page, snapshot: PerformanceSnapshot): PagePerformance {
+    let load = this.pageLoads.get(snapshot.id);
+    if (!load) {
+      this.closePageLoads(page);
+      load = {
+        page,
+        performance: { url: snapshot.url, timestamp: new Date(snapshot.startTime).toISOString() },
+        networkBytes: this.networkTrackers.get(page)?.claim(snapshot.url),
+        closed: false,
+      };
+      this.pageLoads.set(snapshot.id, load);
+      (this.metrics.performance ??= []).push(load.performance);
+    }
+    // Late reports (e.g. on pagehide) don't change a finished page load
+    if (load.closed) return load.performance;
+
+    const { performance, networkBytes } = load;
+    for (const metric of ['ttfb', 'lcp', 'inp'] as const) {
+      if (snapshot[metric] !== undefined) performance[metric] = Math.round(snapshot[metric]);
+    }
+    if (snapshot.cls !== undefined) performance.cls = Math.round(snapshot.cls * 10000) / 10000;
+    const transferSize = networkBytes ? networkBytes() : snapshot.transferSize;
+    if (transferSize !== undefined) performance.transferSize = transferSize;
+
+    return performance;
+  }
+
+  /**
+   * Finish the open page loads of a page (or of every page), raising
+   * frustration observations for metrics over the thresholds.
+   */
+  private closePageLoads(page?: Page): void {
+    for (const load of this.pageLoads.values()) {
+      if (load.closed || (page && load.page !== page)) continue;
+      load.closed = true;
+
+      if (load.networkBytes) {
+        load.performance.transferSize = load.networkBytes();
+      }
+      if (this.config.performanceThresholds === false) continue;
+
+      for (const issue of exceededThresholds(load.performance, this.config.performanceThresholds)) {
+        this.observe('frustration', issue.description, load.performance.url, {
+          severity: 'moderate',
+          recommendation: issue.recommendation,
+        });
+      }
+    }
+  }
+
   /**
    * Track a page load/navigation event.
    */
   trackPageLoad(): void {
-    this.metrics.pagesVisited++;
+    this.track('pagesVisited', 'manual');
   }
 
   /**
    * Track a click interaction.
    */
   trackClick(): void {
-    this.metrics.clickCount++;
+    this.track('clickCount', 'manual');
   }
 
   /**
    * Track a search action.
    */
   trackSearch(): void {
-    this.metrics.searchCount++;
+    this.track('searchCount', 'manual');
   }
 
   /**
    * Track back navigation. High counts may indicate user confusion.
    */
   trackBackNav(): void {
-    this.metrics.backNavCount++;
+    this.track('backNavCount', 'manual');
+  }
+
+  /**
+   * Count an interaction unless it pairs up with a recent one of the same
+   * metric from the other source (manual vs automatic).
+   */
+  private track(
+    metric: TrackedMetric,
+    source: 'auto' | 'manual',
+    url?: string,
+    detail?: InteractionDetail
+  ): void {
+    const now = Date.now();
+    this.unmatchedEvents = this.unmatchedEvents.filter((e) => now - e.time <= DEDUPE_WINDOW_MS);
+    if (url && (metric === 'pagesVisited' || metric === 'backNavCount')) {
+      this.currentUrl = url;
+    }
+
+    const match = this.unmatchedEvents.findIndex((e) => e.metric === metric && e.source !== source);
+    if (match !== -1) {
+      const [matched] = this.unmatchedEvents.splice(match, 1);
+      // The page knows more about the interaction than a manual call
+      if (matched && source === 'auto') {
+        matched.event.description = describeInteraction(metric, detail);
+        if (url) matched.event.url = url;
+      }
+      return;
+    }
+
+    const event = this.logEvent(METRIC_EVENTS[metric], describeInteraction(metric, detail), { url });
+    this.unmatchedEvents.push({ metric, source, time: now, event });
+    this.metrics[metric]++;
+
+    if (metric === 'backNavCount') {
+      this.signals.backNav(url);
+    } else {
+      this.signals.activity(url);
+    }
+  }
+
+  /**
+   * Raise the observation for a detected signal, or update the one already
+   * raised for the same ongoing behaviour.
+   */
+  private recordSignal({ key, type, description, location, evidence, ...options }: DetectedSignal): void {
+    const existing = this.signalObservations.get(key);
+    if (existing) {
+      existing.description = description;
+      existing.evidence = evidence;
+      return;
+    }
+
+    const observation = this.observe(type, description, location, options);
+    observation.evidence = evidence;
+    this.signalObservations.set(key, observation);
   }
 
   /**
@@ -185,34 +1089,126 @@ export class ObservationCollector {
    */
   addConsoleError(message: string): void {
     this.metrics.consoleErrors.push(message);
+    this.recordError({ kind: 'console', message });
+  }
+
+  /**
+   * Record a page's errors in `session.errors`: console errors, uncaught
+   * exceptions, responses with a 4xx/5xx status and requests that failed
+   * without a response. Console errors and uncaught exceptions are also
+   * added to `consoleErrors`.
+   *
+   * `instrument()` and the `personaTest` fixture call this for you.
+   *
+   * @param page - Playwright page object
+   */
+  watchErrors(page: Page): void {
+    if (this.errorWatchedPages.has(page)) return;
+    this.errorWatchedPages.add(page);
+
+    page.on('console', (msg) => {
+      if (msg.type() !== 'error') return;
+      this.metrics.consoleErrors.push(msg.text());
+      this.recordError({
+        kind: 'console',
+        message: msg.text(),
+        ...(msg.location().url && { url: msg.location().url }),
+        pageUrl: page.url(),
+      });
+    });
+    page.on('pageerror', (error) => {
+      this.metrics.consoleErrors.push(error.message);
+      this.recordError({
+        kind: 'pageError',
+        message: error.message,
+        ...(error.stack && { stack: error.stack }),
+        pageUrl: page.url(),
+      });
+    });
+    page.on('response', (response) => {
+      if (response.status() < 400) return;
+      this.recordError({
+        kind: 'httpError',
+        message: `${response.status()} ${response.statusText()}`.trim(),
+        url: response.url(),
+        method: response.request().method(),
+        status: response.status(),
+        pageUrl: page.url(),
+      });
+    });
+    page.on('requestfailed', (request) => {
+      this.recordError({
+        kind: 'requestFailed',
+        message: request.failure()?.errorText ?? 'Request failed',
+        url: request.url(),
+        method: request.method(),
+        pageUrl: page.url(),
+      });
+    });
+  }
+
+  private recordError(error: Omit<SessionError, 'timestamp'>): void {
+    const record: SessionError = { ...error, timestamp: new Date().toISOString() };
+    (this.metrics.errors ??= []).push(record);
+    this.attachToCurrentTask(record);
+    this.logEvent('error', `${ERROR_EVENT_LABELS[record.kind]}: ${formatSessionError(record)}`, {
+      url: record.pageUrl,
+      timestamp: record.timestamp,
+    });
   }
 
   /**
    * Save all collected data to a JSON file.
    *
+   * With a `workerId` configured, writes a partial file to
+   * `<outputDir>/partials/` instead, so parallel workers don't overwrite
+   * each other. Combine partials with `mergeResults()` or `personaspec merge`.
+   *
    * @returns Path to the saved JSON file
    */
   async save(): Promise<string> {
+    this.closePageLoads();
+    this.signals.flush();
     this.metrics.endTime = new Date().toISOString();
-    this.metrics.screenshotsCaptured = this.screenshots.length;
+    this.metrics.screenshotsCaptured = this.screenshots.filter((s) => !s.diffOf).length;
+
+    const tests = await this.collectTestArtifacts();
 
     const results: PersonaTestResults = {
+      schemaVersion: RESULTS_SCHEMA_VERSION,
       persona: `${this.config.persona.name} - ${this.config.persona.role}`,
       background: this.config.persona.background,
       goals: this.config.persona.goals,
       behaviors: this.config.persona.behaviors,
+      ...(this.config.persona.environment && { environment: this.config.persona.environment }),
+      ...(this.config.project && { project: this.config.project }),
       session: this.metrics,
       tasks: this.tasks,
       observations: this.observations,
       screenshots: this.screenshots,
+      ...(this.accessibility.length > 0 && { accessibility: this.accessibility }),
+      // Screenshots are logged when captured but stamped when they started
+      ...(this.timeline.length > 0 && {
+        timeline: [...this.timeline].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)),
+      }),
+      ...(tests.length > 0 && { tests }),
     };
 
     const safeName = this.config.persona.name.toLowerCase().replace(/\s+/g, '-');
-    const filename = `${safeName}-observations.json`;
-    const filepath = path.join(this.config.outputDir, filename);
+    let filepath: string;
+    let output = results;
+    if (this.config.workerId) {
+      results.worker = this.config.workerId;
+      const safeWorker = this.config.workerId.replace(/[^a-zA-Z0-9-_]/g, '-');
+      filepath = path.join(this.config.outputDir, 'partials', `${safeName}-${safeWorker}.json`);
+      // Store references are relative to the results file
+      output = rebaseScreenshotRefs(results, this.config.outputDir, path.dirname(filepath));
+    } else {
+      filepath = path.join(this.config.outputDir, `${safeName}-observations.json`);
+    }
 
-    await fs.mkdir(this.config.outputDir, { recursive: true });
-    await fs.writeFile(filepath, JSON.stringify(results, null, 2));
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.writeFile(filepath, JSON.stringify(output, null, 2));
 
     return filepath;
   }
@@ -231,6 +1227,13 @@ export class ObservationCollector {
     return { ...this.metrics };
   }
 
+  /**
+   * Get the session timeline so far, in the order events were logged.
+   */
+  getTimeline(): TimelineEvent[] {
+    return [...this.timeline];
+  }
+
   /**
    * Get current tasks (useful for debugging or mid-test assertions).
    */
@@ -252,7 +1255,17 @@ export class ObservationCollector {
     this.observations = [];
     this.screenshots = [];
     this.tasks = [];
-    this.currentTaskStart = undefined;
+    this.accessibility = [];
+    this.openTasks = [];
+    this.allocateId = createIdAllocator();
+    this.unmatchedEvents = [];
+    this.timeline = [];
+    this.currentUrl = undefined;
+    this.tests = [];
+    this.currentTestId = undefined;
+    this.pageLoads.clear();
+    this.signals = createSignalDetector(this.detectors, (signal) => this.recordSignal(signal));
+    this.signalObservations.clear();
     this.metrics = {
       startTime: new Date().toISOString(),
       pagesVisited: 0,
@@ -0,0 +1,118 @@
+import type { Page } from '@playwright/test';
+import axe from 'axe-core';
+import type {
+  AccessibilityAudit,
+  AccessibilityAuditOptions,
+  AccessibilityImpact,
+  AccessibilityViolation,
+  ObservationSeverity,
+  ObservationType,
+} from './types.js';
+
+/**
+ * Rule tags run by default: WCAG 2.0 and 2.1, levels A and AA.
+ */
+export const DEFAULT_ACCESSIBILITY_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+const IMPACT_ORDER: AccessibilityImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+/**
+ * How each axe impact is recorded as an observation.
+ */
+export const IMPACT_TO_OBSERVATION: Record<
+  AccessibilityImpact,
+  { type: ObservationType; severity: ObservationSeverity }
+> = {
+  critical: { type: 'frustration', severity: 'critical' },
+  serious: { type: 'frustration', severity: 'critical' },
+  moderate: { type: 'confusion', severity: 'moderate' },
+  minor: { type: 'note', severity: 'minor' },
+};
+
+interface AxeNode {
+  target: Array<string | string[]>;
+  html: string;
+  failureSummary?: string;
+}
+
+interface AxeResults {
+  testEngine: { version: string };
+  violations: Array<Omit<AccessibilityViolation, 'nodes' | 'impact'> & { impact?: string | null; nodes: AxeNode[] }>;
+  passes: unknown[];
+  incomplete: unknown[];
+}
+
+/**
+ * The browser globals the audit reaches, which aren't typed here.
+ */
+interface AxeGlobals {
+  axe: { run(context: unknown, options: unknown): Promise<AxeResults> };
+  document: unknown;
+}
+
+/**
+ * Run the bundled axe-core against a page or element.
+ *
+ * axe-core is injected from the installed package, so no network access is
+ * needed.
+ *
+ * @param page - Playwright page object
+ * @param options - Scope, rules and impact threshold
+ * @returns The audit findings
+ */
+export async function runAccessibilityAudit(
+  page: Page,
+  options: AccessibilityAuditOptions = {}
+): Promise<AccessibilityAudit> {
+  const tags = options.tags ?? DEFAULT_ACCESSIBILITY_TAGS;
+  const runOptions = {
+    runOnly: { type: 'tag', values: tags },
+    rules: options.rules,
+    resultTypes: ['violations'],
+  };
+
+  const injected = await page.evaluate('typeof window.axe !== "undefined"');
+  if (!injected) {
+    await page.evaluate(axe.source);
+  }
+
+  // Browser globals aren't typed here, so reach them through globalThis
+  const results = options.locator
+    ? await options.locator.evaluate(
+        (element, opts) => (globalThis as unknown as AxeGlobals).axe.run(element, opts),
+        runOptions
+      )
+    : await page.evaluate((opts) => {
+        const globals = globalThis as unknown as AxeGlobals;
+        return globals.axe.run(globals.document, opts);
+      }, runOptions);
+
+  const minImpact = IMPACT_ORDER.indexOf(options.minImpact ?? 'minor');
+  const violations: AccessibilityViolation[] = results.violations
+    .filter((v) => IMPACT_ORDER.indexOf((v.impact ?? 'minor') as AccessibilityImpact) >= minImpact)
+    .map((v) => ({
+      id: v.id,
+      ...(v.impact && { impact: v.impact as AccessibilityImpact }),
+      description: v.description,
+      help: v.help,
+      helpUrl: v.helpUrl,
+      tags: v.tags,
+      nodes: v.nodes.map((node) => ({
+        // Targets inside shadow DOM are nested selector lists
+        target: node.target.map((t) => (Array.isArray(t) ? t.join(' >>> ') : t)),
+        html: node.html,
+        ...(node.failureSummary && { failureSummary: node.failureSummary }),
+      })),
+    }));
+
+  return {
+    url: page.url(),
+    ...(options.locator && { scope: options.locator.toString() }),
+    timestamp: new Date().toISOString(),
+    engine: `axe-core ${results.testEngine.version}`,
+    tags,
+    violations,
+    passes: results.passes.length,
+    incomplete: results.incomplete.length,
+  };
+}
@@ -0,0 +1,176 @@
+import { OBSERVATION_MATCH_SCORE, observationSimilarity } from './diff.js';
+import type { Observation, ObservationSeverity, ObservationType, PersonaTestResults } from './types.js';
+
+/**
+ * Observation counts by type.
+ */
+export type ObservationCounts = Record<ObservationType, number>;
+
+/**
+ * Headline numbers for one results file.
+ */
+export interface PersonaSummary {
+  persona: string;
+  tasksPassed: number;
+  tasksTotal: number;
+  observations: ObservationCounts;
+}
+
+/**
+ * Observation counts on one page, with one entry per results file in the
+ * order they were given.
+ */
+export interface PageRow {
+  /** Page URL (host and path), or the observations' location when it isn't a URL */
+  page: string;
+  counts: ObservationCounts[];
+}
+
+/**
+ * The same problem raised by more than one persona.
+ */
+export interface SharedIssue {
+  /** The personas that ran into it, each once however many of its runs did */
+  personas: string[];
+  /** Worst severity any of the personas gave it */
+  severity?: ObservationSeverity;
+  /** Each persona's observation of it, by the index of its results file */
+  observations: Array<{ run: number; observation: Observation }>;
+}
+
+/**
+ * A combined view of several persona runs.
+ */
+export interface AggregateResults {
+  personas: PersonaSummary[];
+  pages: PageRow[];
+  sharedIssues: SharedIssue[];
+}
+
+const SEVERITY_RANK: Record<ObservationSeverity, number> = {
+  positive: 0,
+  minor: 1,
+  moderate: 2,
+  critical: 3,
+};
+
+function emptyCounts(): ObservationCounts {
+  return { success: 0, note: 0, confusion: 0, frustration: 0 };
+}
+
+/**
+ * The page an observation was made on: its location when that is a URL,
+ * otherwise the URL of its first screenshot, otherwise the location text.
+ * URLs are reduced to host and path so query strings don't split pages.
+ */
+function observationPage(observation: Observation, screenshotUrls: Map<string, string>): string {
+  const url = /^https?:\/\//.test(observation.location)
+    ? observation.location
+    : observation.screenshotIds?.map((id) => screenshotUrls.get(id)).find(Boolean);
+  if (!url) return observation.location;
+
+  try {
+    const { host, pathname } = new URL(url);
+    return host + (pathname === '/' ? '/' : pathname.replace(/\/$/, ''));
+  } catch {
+    return observation.location;
+  }
+}
+
+/**
+ * Group problems that several personas describe alike. Each group holds at
+ * most one observation per file; groups from a single persona's runs aren't
+ * shared and are left out.
+ */
+function findSharedIssues(runs: PersonaTestResults[]): SharedIssue[] {
+  const groups: Array<Pick<SharedIssue, 'observations'>> = [];
+
+  runs.forEach((results, run) => {
+    for (const observation of results.observations) {
+      if (observation.type === 'success') continue;
+
+      let best: { group: (typeof groups)[number]; score: number } | undefined;
+      for (const group of groups) {
+        const [first] = group.observations;
+        if (!first || group.observations.some((entry) => entry.run === run)) continue;
+        const score = observationSimilarity(first.observation, observation);
+        if (score >= OBSERVATION_MATCH_SCORE && (!best || score > best.score)) {
+          best = { group, score };
+        }
+      }
+
+      if (best) {
+        best.group.observations.push({ run, observation });
+      } else {
+        groups.push({ observations: [{ run, observation }] });
+      }
+    }
+  });
+
+  return groups
+    .map((group): SharedIssue => {
+      const personas = [...new Set(group.observations.map(({ run }) => runs[run]!.persona))];
+      const severity = group.observations
+        .map(({ observation }) => observation.severity)
+        .filter((s): s is ObservationSeverity => Boolean(s))
+        .sort((a, b) => SEVERITY_RANK[b] - SEVERITY_RANK[a])[0];
+      return { personas, ...(severity && { severity }), observations: group.observations };
+    })
+    .filter((issue) => issue.personas.length > 1)
+    .sort(
+      (a, b) =>
+        b.personas.length - a.personas.length ||
+        b.observations.length - a.observations.length ||
+        SEVERITY_RANK[b.severity ?? 'minor'] - SEVERITY_RANK[a.severity ?? 'minor']
+    );
+}
+
+/**
+ * Combine several persona runs into one overview: each persona's task
+ * success and observation counts, a page-by-persona matrix of observation
+ * counts, and the problems more than one persona ran into.
+ *
+ * Pages are listed by how many problems were raised on them, most first.
+ * Shared problems are matched by similar location and description, the
+ * same way `diffResults` pairs observations across runs, and counted by
+ * persona name, so several runs of one persona don't make a problem shared.
+ *
+ * @param runs - Results files to combine, one per persona (or per run)
+ * @returns The combined view; per-file entries follow the order of `runs`
+ */
+export function aggregateResults(runs: PersonaTestResults[]): AggregateResults {
+  const pages = new Map<string, ObservationCounts[]>();
+
+  const personas = runs.map((results, run): PersonaSummary => {
+    const observations = emptyCounts();
+    const screenshotUrls = new Map(results.screenshots.map((ss) => [ss.id, ss.url]));
+
+    for (const observation of results.observations) {
+      observations[observation.type]++;
+
+      const page = observationPage(observation, screenshotUrls);
+      const counts = pages.get(page) ?? runs.map(emptyCounts);
+      const cell = counts[run];
+      if (cell) cell[observation.type]++;
+      pages.set(page, counts);
+    }
+
+    return {
+      persona: results.persona,
+      tasksPassed: results.tasks.filter((t) => t.success).length,
+      tasksTotal: results.tasks.length,
+      observations,
+    };
+  });
+
+  const problems = (counts: ObservationCounts[]) =>
+    counts.reduce((sum, c) => sum + c.note + c.confusion + c.frustration, 0);
+
+  return {
+    personas,
+    pages: [...pages]
+      .map(([page, counts]) => ({ page, counts }))
+      .sort((a, b) => problems(b.counts) - problems(a.counts)),
+    sharedIssues: findSharedIssues(runs),
+  };
+}
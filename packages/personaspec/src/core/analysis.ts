@@ -0,0 +1,416 @@
+import Ajv, { type ValidateFunction } from 'ajv';
+import type { AnalysisOutputFormat, AnalysisResponse } from './analysisProvider.js';
+import { toValidationIssues, type ResultsValidationIssue } from './results.js';
+import type {
+  FindingCategory,
+  ObservationSeverity,
+  PersonaTestResults,
+  RecommendationPriority,
+  Screenshot,
+  ScreenshotFinding,
+  SummaryRecommendation,
+  TestSummary,
+} from './types.js';
+
+/**
+ * What the model returns for an analysis: the summary, and findings for
+ * each screenshot it was shown.
+ */
+export interface AnalysisOutput {
+  executiveSummary: string;
+  /** Letter grade, e.g. "B+" */
+  overallScore: string;
+  scoreRationale: string;
+  strengths: string[];
+  areasForImprovement: string[];
+  screenshots: Array<{ screenshotId: string; findings: ScreenshotFinding[] }>;
+  recommendations: SummaryRecommendation[];
+}
+
+/**
+ * What the model returns for one batch of a chunked analysis.
+ */
+export interface BatchAnalysisOutput {
+  /** Notes on this part of the journey, passed to the combining pass */
+  notes: string;
+  screenshots: AnalysisOutput['screenshots'];
+}
+
+/**
+ * What the combining pass of a chunked analysis returns.
+ */
+export type SummaryAnalysisOutput = Omit<AnalysisOutput, 'screenshots'>;
+
+export const FINDING_CATEGORY_LABELS: Record<FindingCategory, string> = {
+  ux: 'UX',
+  accessibility: 'Accessibility',
+  design: 'Design',
+  goal: 'Goal achievement',
+};
+
+export const RECOMMENDATION_PRIORITY_LABELS: Record<RecommendationPriority, string> = {
+  critical: 'Critical',
+  important: 'Important',
+  niceToHave: 'Nice-to-have',
+};
+
+const SEVERITIES: ObservationSeverity[] = ['critical', 'moderate', 'minor', 'positive'];
+
+const FINDINGS_SCHEMA = {
+  type: 'array',
+  description: 'Findings for each screenshot, by the screenshot ID given with it',
+  items: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['screenshotId', 'findings'],
+    properties: {
+      screenshotId: { type: 'string' },
+      findings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['category', 'severity', 'description'],
+          properties: {
+            category: { type: 'string', enum: Object.keys(FINDING_CATEGORY_LABELS) },
+            severity: {
+              type: 'string',
+              enum: SEVERITIES,
+              description: "How badly it affects the persona; 'positive' for things that work well",
+            },
+            description: { type: 'string' },
+            recommendation: { type: 'string', description: 'Concrete fix, for problems' },
+          },
+        },
+      },
+    },
+  },
+};
+
+const SUMMARY_PROPERTIES = {
+  executiveSummary: {
+    type: 'string',
+    description: 'Two or three sentences on how the session went for this persona',
+  },
+  overallScore: {
+    type: 'string',
+    pattern: '^[A-DF][+-]?$',
+    description: 'Letter grade from A to F, optionally with + or -',
+  },
+  scoreRationale: { type: 'string', description: 'Why the score was given' },
+  strengths: { type: 'array', items: { type: 'string' }, description: 'Things that worked well' },
+  areasForImprovement: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Areas that need improvement',
+  },
+  recommendations: {
+    type: 'array',
+    description: 'Improvements, most urgent first',
+    items: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['priority', 'text'],
+      properties: {
+        priority: { type: 'string', enum: Object.keys(RECOMMENDATION_PRIORITY_LABELS) },
+        text: { type: 'string' },
+      },
+    },
+  },
+};
+
+/**
+ * The structured output `analyze` asks the model for when all screenshots
+ * are sent at once.
+ */
+export const ANALYSIS_OUTPUT_FORMAT: AnalysisOutputFormat = {
+  name: 'persona_analysis',
+  description: 'Record the UX analysis of the persona test session.',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: [...Object.keys(SUMMARY_PROPERTIES), 'screenshots'],
+    properties: { ...SUMMARY_PROPERTIES, screenshots: FINDINGS_SCHEMA },
+  },
+};
+
+/**
+ * The structured output for one batch of a chunked analysis: findings for
+ * the batch's screenshots, and notes for the combining pass.
+ */
+export const BATCH_OUTPUT_FORMAT: AnalysisOutputFormat = {
+  name: 'persona_analysis_batch',
+  description: 'Record the UX analysis of this part of the persona test session.',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['notes', 'screenshots'],
+    properties: {
+      notes: {
+        type: 'string',
+        description: 'What happened in this part of the journey and how it went for the persona, for the final summary',
+      },
+      screenshots: FINDINGS_SCHEMA,
+    },
+  },
+};
+
+/**
+ * The structured output for the pass that combines batch findings into the
+ * session summary.
+ */
+export const SUMMARY_OUTPUT_FORMAT: AnalysisOutputFormat = {
+  name: 'persona_analysis_summary',
+  description: 'Record the overall UX analysis of the persona test session.',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: Object.keys(SUMMARY_PROPERTIES),
+    properties: SUMMARY_PROPERTIES,
+  },
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateOutput = ajv.compile<AnalysisOutput>(ANALYSIS_OUTPUT_FORMAT.schema);
+const validateBatchOutput = ajv.compile<BatchAnalysisOutput>(BATCH_OUTPUT_FORMAT.schema);
+const validateSummaryOutput = ajv.compile<SummaryAnalysisOutput>(SUMMARY_OUTPUT_FORMAT.schema);
+
+/**
+ * Result of checking a model's structured output.
+ */
+export type ParsedAnalysisOutput<T> =
+  | { output: T; issues?: undefined }
+  | { output?: undefined; issues: ResultsValidationIssue[] };
+
+function parseOutput<T>(response: AnalysisResponse, validate: ValidateFunction<T>): ParsedAnalysisOutput<T> {
+  let data = response.data;
+  if (data === undefined) {
+    const json = response.text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1] ?? response.text;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      return { issues: [{ path: '$', message: 'is not valid JSON' }] };
+    }
+  }
+
+  return validate(data) ? { output: data } : { issues: toValidationIssues(validate.errors) };
+}
+
+/**
+ * Pull the structured output out of a model response and check it against
+ * {@link ANALYSIS_OUTPUT_FORMAT}.
+ *
+ * Providers that don't support structured output may still answer with
+ * JSON in their text, optionally in a code fence; that is accepted too.
+ *
+ * @param response - The provider's response to a request with `output` set
+ * @returns The output, or every problem with it by JSON path
+ */
+export function parseAnalysisOutput(response: AnalysisResponse): ParsedAnalysisOutput<AnalysisOutput> {
+  return parseOutput(response, validateOutput);
+}
+
+/**
+ * Like {@link parseAnalysisOutput}, for a response to {@link BATCH_OUTPUT_FORMAT}.
+ */
+export function parseBatchOutput(response: AnalysisResponse): ParsedAnalysisOutput<BatchAnalysisOutput> {
+  return parseOutput(response, validateBatchOutput);
+}
+
+/**
+ * Like {@link parseAnalysisOutput}, for a response to {@link SUMMARY_OUTPUT_FORMAT}.
+ */
+export function parseSummaryOutput(response: AnalysisResponse): ParsedAnalysisOutput<SummaryAnalysisOutput> {
+  return parseOutput(response, validateSummaryOutput);
+}
+
+/**
+ * Limits on one analysis request, used to split screenshots into batches.
+ */
+export interface AnalysisBatchLimits {
+  /** Most screenshots per request */
+  maxImages: number;
+  /** Most estimated image tokens per request */
+  maxImageTokens: number;
+}
+
+/**
+ * Batch limits that stay well inside the bundled providers' request limits
+ * while leaving room in the reply for findings on every screenshot.
+ */
+export const DEFAULT_BATCH_LIMITS: AnalysisBatchLimits = {
+  maxImages: 10,
+  maxImageTokens: 20_000,
+};
+
+/**
+ * Vision models scale images down to about 1.15 megapixels, which costs
+ * around 1,600 tokens; smaller images cost about one token per 750 pixels.
+ */
+const MAX_IMAGE_TOKENS = 1600;
+
+/**
+ * Estimate how many tokens a screenshot costs a vision model, from its
+ * size. Screenshots without a recorded size are counted at the maximum.
+ */
+export function estimateImageTokens(screenshot: Screenshot): number {
+  if (!screenshot.size) return MAX_IMAGE_TOKENS;
+  const { width, height } = screenshot.size;
+  return Math.min(MAX_IMAGE_TOKENS, Math.ceil((width * height) / 750));
+}
+
+/**
+ * Split screenshots into consecutive batches within the given limits. Each
+ * batch holds at least one screenshot, whatever its size.
+ *
+ * @param screenshots - Screenshots to analyze, in session order
+ * @param limits - Per-request limits (default: {@link DEFAULT_BATCH_LIMITS})
+ */
+export function planAnalysisBatches(
+  screenshots: Screenshot[],
+  limits: AnalysisBatchLimits = DEFAULT_BATCH_LIMITS
+): Screenshot[][] {
+  const batches: Screenshot[][] = [];
+  let current: Screenshot[] = [];
+  let tokens = 0;
+
+  for (const screenshot of screenshots) {
+    const cost = estimateImageTokens(screenshot);
+    if (current.length > 0 && (current.length >= limits.maxImages || tokens + cost > limits.maxImageTokens)) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(screenshot);
+    tokens += cost;
+  }
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+}
+
+/**
+ * Join the outputs of a chunked analysis into one, tagging each finding
+ * with the (1-based) batch it came from.
+ *
+ * @param batches - Batch outputs, in batch order
+ * @param summary - Output of the combining pass
+ */
+export function combineBatchOutputs(batches: BatchAnalysisOutput[], summary: SummaryAnalysisOutput): AnalysisOutput {
+  return {
+    ...summary,
+    screenshots: batches.flatMap((batch, index) =>
+      batch.screenshots.map((entry) => ({
+        screenshotId: entry.screenshotId,
+        findings: entry.findings.map((finding) => ({ ...finding, batch: index + 1 })),
+      }))
+    ),
+  };
+}
+
+/**
+ * Write an analysis into a copy of the results: `summary` from the output,
+ * and each screenshot's `findings`.
+ *
+ * Issue counts are the findings of each severity across all screenshots, so
+ * a problem seen on several screenshots counts once per screenshot. Findings
+ * from an earlier analysis are replaced; findings for screenshot IDs not in
+ * the results are dropped.
+ *
+ * @param results - Results that were analyzed
+ * @param output - Validated output from {@link parseAnalysisOutput}
+ * @param meta - Model that wrote the analysis, when (default: now), and in
+ *   how many batches for a chunked analysis
+ * @returns The results with the analysis applied
+ */
+export function applyAnalysis(
+  results: PersonaTestResults,
+  output: AnalysisOutput,
+  meta: { model: string; analyzedAt?: string; batches?: number }
+): PersonaTestResults {
+  const screenshotIds = new Set(results.screenshots.map((ss) => ss.id));
+  const findings = new Map<string, ScreenshotFinding[]>();
+  for (const entry of output.screenshots) {
+    if (!screenshotIds.has(entry.screenshotId)) continue;
+    findings.set(entry.screenshotId, [...(findings.get(entry.screenshotId) ?? []), ...entry.findings]);
+  }
+
+  const all = [...findings.values()].flat();
+  const count = (severity: ObservationSeverity) => all.filter((f) => f.severity === severity).length;
+
+  const summary: TestSummary = {
+    overallScore: output.overallScore,
+    scoreRationale: output.scoreRationale,
+    executiveSummary: output.executiveSummary,
+    strengths: output.strengths,
+    areasForImprovement: output.areasForImprovement,
+    criticalIssues: count('critical'),
+    moderateIssues: count('moderate'),
+    minorIssues: count('minor'),
+    recommendations: output.recommendations,
+    model: meta.model,
+    analyzedAt: meta.analyzedAt ?? new Date().toISOString(),
+    ...(meta.batches !== undefined && { batches: meta.batches }),
+  };
+
+  return {
+    ...results,
+    screenshots: results.screenshots.map(({ findings: _previous, ...ss }) =>
+      findings.has(ss.id) ? { ...ss, findings: findings.get(ss.id) } : ss
+    ),
+    summary,
+  };
+}
+
+/**
+ * Render an analysis as Markdown: executive summary, findings per
+ * screenshot, prioritized recommendations and the overall score.
+ *
+ * Screenshots not in the results are left out, as in {@link applyAnalysis}.
+ *
+ * @param output - Validated output from {@link parseAnalysisOutput}
+ * @param results - The analyzed results, for screenshot names
+ */
+export function formatAnalysisMarkdown(output: AnalysisOutput, results: PersonaTestResults): string {
+  const screenshotNames = new Map(results.screenshots.map((ss) => [ss.id, ss.name]));
+  const lines = ['## Executive Summary', '', output.executiveSummary, '', '## Screenshot Analysis'];
+
+  for (const entry of output.screenshots) {
+    const name = screenshotNames.get(entry.screenshotId);
+    if (name === undefined) continue;
+    lines.push('', `### ${name}`, '');
+    if (entry.findings.length === 0) {
+      lines.push('No findings.');
+    }
+    for (const finding of entry.findings) {
+      lines.push(
+        `- **[${finding.severity}] ${FINDING_CATEGORY_LABELS[finding.category]}:** ${finding.description}${
+          finding.recommendation ? ` *Recommendation:* ${finding.recommendation}` : ''
+        }${finding.batch ? ` _(batch ${finding.batch})_` : ''}`
+      );
+    }
+  }
+
+  lines.push('', '## Recommendations');
+  for (const priority of Object.keys(RECOMMENDATION_PRIORITY_LABELS) as RecommendationPriority[]) {
+    const recommendations = output.recommendations.filter((r) => r.priority === priority);
+    if (recommendations.length === 0) continue;
+    lines.push('', `### ${RECOMMENDATION_PRIORITY_LABELS[priority]}`, '', ...recommendations.map((r) => `- ${r.text}`));
+  }
+
+  const list = (items: string[]) => (items.length ? items.map((item) => `- ${item}`) : ['- None']);
+  lines.push(
+    '',
+    `## Overall Score: ${output.overallScore}`,
+    '',
+    output.scoreRationale,
+    '',
+    '**Strengths:**',
+    ...list(output.strengths),
+    '',
+    '**Areas for improvement:**',
+    ...list(output.areasForImprovement)
+  );
+
+  return lines.join('\n');
+}
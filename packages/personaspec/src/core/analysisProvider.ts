@@ -0,0 +1,586 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+/**
+ * A block of the analysis prompt: text, or a base64-encoded image.
+ */
+export type AnalysisContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: string; data: string };
+
+/**
+ * Structured output to ask the model for instead of free-form text.
+ */
+export interface AnalysisOutputFormat {
+  /** Identifier for the output, sent as the tool or schema name */
+  name: string;
+  /** What the output is, for the model */
+  description: string;
+  /** JSON Schema the output must match */
+  schema: Record<string, unknown>;
+}
+
+/**
+ * A single request to a vision model.
+ */
+export interface AnalysisRequest {
+  /** Model to use, in the provider's naming */
+  model: string;
+  /** System prompt */
+  system: string;
+  /** The user message, in order */
+  content: AnalysisContent[];
+  /** Most tokens the model may write */
+  maxTokens: number;
+  /** Ask for JSON matching this schema; the reply is then in `data` */
+  output?: AnalysisOutputFormat;
+}
+
+/**
+ * What the model answered.
+ */
+export interface AnalysisResponse {
+  /** The model's reply; for structured output, the JSON as text */
+  text: string;
+  /** Parsed structured output, when the request had `output` (not yet validated) */
+  data?: unknown;
+  /** Set when the response came from the cache rather than the model */
+  cached?: boolean;
+  /** Model that answered, if the provider reports it */
+  model?: string;
+}
+
+/**
+ * A vision model service that `analyze` sends its prompt to.
+ *
+ * Implement this to use a model the bundled providers don't cover; throw
+ * {@link AnalysisProviderError} for failures the user can act on.
+ */
+export interface AnalysisProvider {
+  /** Display name, e.g. "Anthropic" */
+  readonly name: string;
+  /** URL requests are sent to, if any; cache entries are kept apart per endpoint */
+  readonly endpoint?: string;
+  analyze(request: AnalysisRequest): Promise<AnalysisResponse>;
+}
+
+/**
+ * Thrown by providers when a request fails.
+ */
+export class AnalysisProviderError extends Error {
+  constructor(
+    message: string,
+    readonly options: {
+      /** HTTP status of the failed request */
+      status?: number;
+      /** How many times the request was tried */
+      attempts?: number;
+      /** What the user can do about it */
+      hint?: string;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'AnalysisProviderError';
+  }
+}
+
+/**
+ * A failed attempt that is about to be retried.
+ */
+export interface RetryInfo {
+  /** The attempt that failed, from 1 */
+  attempt: number;
+  /** Attempts allowed in total */
+  maxAttempts: number;
+  /** How long until the next attempt, in milliseconds */
+  delayMs: number;
+  /** HTTP status, or undefined for network errors */
+  status?: number;
+  /** What went wrong */
+  message: string;
+}
+
+/**
+ * Settings shared by the HTTP providers.
+ */
+export interface HttpProviderOptions {
+  /** API key, sent the way the service expects */
+  apiKey?: string;
+  /** Endpoint root, to use a gateway, proxy or mock server */
+  baseUrl?: string;
+  /** Retries after rate limits, overload, server and network errors (default: 3) */
+  retries?: number;
+  /** Called before each retry, e.g. to log it */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Statuses worth retrying: timeouts, rate limits, server errors and overload.
+ */
+const RETRY_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Delay before the first retry; each later one doubles it.
+ */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Longest wait between attempts, even when the service asks for more.
+ */
+const RETRY_MAX_DELAY_MS = 60_000;
+
+/**
+ * How long to wait before the next attempt: what the service asked for in
+ * `retry-after`, otherwise exponential backoff with jitter.
+ */
+function retryDelay(response: Response | undefined, attempt: number): number {
+  const retryAfter = response?.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!Number.isNaN(delay)) {
+      return Math.min(RETRY_MAX_DELAY_MS, Math.max(0, delay));
+    }
+  }
+
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(RETRY_MAX_DELAY_MS, backoff / 2 + (Math.random() * backoff) / 2);
+}
+
+/**
+ * What the user can do about a failed request.
+ */
+function errorHint(status: number | undefined, attempts: number): string | undefined {
+  const retried = attempts > 1 ? ` (gave up after ${attempts} attempts)` : '';
+  switch (status) {
+    case 401:
+      return 'Check that your API key is valid and has not expired.';
+    case 429:
+      return `You may have hit rate limits${retried}. Wait a minute and try again, or allow more retries.`;
+    case 529:
+    case 503:
+      return `The service is overloaded${retried}. Try again later, or allow more retries.`;
+    default:
+      return attempts > 1 ? `The request failed ${attempts} times.` : undefined;
+  }
+}
+
+/**
+ * The error for a reply that doesn't have the shape of the API's responses.
+ */
+function unexpectedResponse(): AnalysisProviderError {
+  return new AnalysisProviderError('Unexpected API response format', {
+    hint: 'Check that the endpoint speaks the API of the provider you chose (--provider, --base-url).',
+  });
+}
+
+/**
+ * Describe a failed `fetch()`. Node only says "fetch failed" and puts the
+ * reason, such as a refused connection, in `cause`.
+ */
+function networkErrorMessage(error: unknown): string {
+  const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : undefined;
+  return `Network request failed${cause ? `: ${cause}` : ''}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Objects in a reply's array field, skipping anything else.
+ */
+function objectsAt(value: unknown, key: string): Array<Record<string, unknown>> {
+  const field = isObject(value) ? value[key] : undefined;
+  return Array.isArray(field) ? field.filter(isObject) : [];
+}
+
+/**
+ * The model a reply names, if any.
+ */
+function replyModel(value: unknown): string | undefined {
+  return isObject(value) && typeof value.model === 'string' ? value.model : undefined;
+}
+
+/**
+ * Names of the bundled HTTP providers.
+ */
+export type AnalysisProviderName = 'anthropic' | 'openai';
+
+/**
+ * Default model for each bundled provider.
+ */
+export const DEFAULT_ANALYSIS_MODELS: Record<AnalysisProviderName, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4o',
+};
+
+/**
+ * POST a JSON body and return the parsed reply, turning error responses
+ * into {@link AnalysisProviderError}s with the service's message.
+ *
+ * Rate limits, overload, server and network errors are retried with
+ * backoff, honoring `retry-after`.
+ */
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  options: Pick<HttpProviderOptions, 'retries' | 'onRetry'>
+): Promise<unknown> {
+  const maxAttempts = 1 + Math.max(0, options.retries ?? 3);
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | undefined;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      // Network errors are retried too
+      const message = networkErrorMessage(error);
+      if (attempt >= maxAttempts) {
+        const retried = attempt > 1 ? ` (gave up after ${attempt} attempts)` : '';
+        throw new AnalysisProviderError(message, {
+          attempts: attempt,
+          hint: `Check your internet connection and the endpoint (--base-url)${retried}.`,
+        });
+      }
+      const delayMs = retryDelay(undefined, attempt);
+      options.onRetry?.({ attempt, maxAttempts, delayMs, message });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      continue;
+    }
+
+    if (response.ok) {
+      try {
+        return JSON.parse(await response.text()) as unknown;
+      } catch {
+        throw unexpectedResponse();
+      }
+    }
+
+    const errorBody = await response.text();
+    let message = `API request failed with status ${response.status}`;
+
+    try {
+      const errorJson = JSON.parse(errorBody);
+      if (errorJson.error?.message) {
+        message = errorJson.error.message;
+      }
+    } catch {
+      // Use default error message
+    }
+
+    if (RETRY_STATUSES.has(response.status) && attempt < maxAttempts) {
+      const delayMs = retryDelay(response, attempt);
+      options.onRetry?.({ attempt, maxAttempts, delayMs, status: response.status, message });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      continue;
+    }
+
+    throw new AnalysisProviderError(message, {
+      status: response.status,
+      attempts: attempt,
+      hint: errorHint(response.status, attempt),
+    });
+  }
+}
+
+/**
+ * Provider for the Anthropic Messages API, or any service that speaks it.
+ *
+ * @param options - API key and an optional base URL (default: https://api.anthropic.com)
+ */
+export function createAnthropicProvider(options: HttpProviderOptions = {}): AnalysisProvider {
+  const baseUrl = (options.baseUrl ?? 'https://api.anthropic.com').replace(/\/+$/, '');
+  const endpoint = `${baseUrl}/v1/messages`;
+
+  return {
+    name: 'Anthropic',
+    endpoint,
+    async analyze(request) {
+      const result = await postJson(
+        endpoint,
+        {
+          ...(options.apiKey && { 'x-api-key': options.apiKey }),
+          'anthropic-version': '2023-06-01',
+        },
+        {
+          model: request.model,
+          max_tokens: request.maxTokens,
+          system: request.system,
+          ...(request.output && {
+            tools: [
+              {
+                name: request.output.name,
+                description: request.output.description,
+                input_schema: request.output.schema,
+              },
+            ],
+            tool_choice: { type: 'tool', name: request.output.name },
+          }),
+          messages: [
+            {
+              role: 'user',
+              content: request.content.map((block) =>
+                block.type === 'text'
+                  ? block
+                  : { type: 'image', source: { type: 'base64', media_type: block.mediaType, data: block.data } }
+              ),
+            },
+          ],
+        },
+        options
+      );
+
+      const content = objectsAt(result, 'content');
+      const model = replyModel(result);
+      if (request.output) {
+        const input = content.find((block) => block.type === 'tool_use')?.input;
+        if (!isObject(input)) {
+          throw unexpectedResponse();
+        }
+        return { text: JSON.stringify(input), data: input, model };
+      }
+
+      const text = content[0]?.text;
+      if (typeof text !== 'string') {
+        throw unexpectedResponse();
+      }
+      return { text, model };
+    },
+  };
+}
+
+/**
+ * Provider for OpenAI-compatible Chat Completions endpoints (OpenAI, Azure
+ * OpenAI gateways, vLLM, Ollama and the like).
+ *
+ * @param options - API key and an optional base URL (default: https://api.openai.com/v1)
+ */
+export function createOpenAIProvider(options: HttpProviderOptions = {}): AnalysisProvider {
+  const baseUrl = (options.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const endpoint = `${baseUrl}/chat/completions`;
+
+  return {
+    name: 'OpenAI-compatible',
+    endpoint,
+    async analyze(request) {
+      const result = await postJson(
+        endpoint,
+        options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+        {
+          model: request.model,
+          max_tokens: request.maxTokens,
+          ...(request.output && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: {
+                name: request.output.name,
+                description: request.output.description,
+                schema: request.output.schema,
+              },
+            },
+          }),
+          messages: [
+            { role: 'system', content: request.system },
+            {
+              role: 'user',
+              content: request.content.map((block) =>
+                block.type === 'text'
+                  ? block
+                  : { type: 'image_url', image_url: { url: `data:${block.mediaType};base64,${block.data}` } }
+              ),
+            },
+          ],
+        },
+        options
+      );
+
+      const message = objectsAt(result, 'choices')[0]?.message;
+      const text = isObject(message) ? message.content : undefined;
+      if (typeof text !== 'string') {
+        throw unexpectedResponse();
+      }
+      const model = replyModel(result);
+      if (request.output) {
+        try {
+          return { text, data: JSON.parse(text) as unknown, model };
+        } catch {
+          // Leave the text for the caller to report
+        }
+      }
+      return { text, model };
+    },
+  };
+}
+
+/**
+ * Create one of the bundled HTTP providers by name.
+ *
+ * @param name - Which API the endpoint speaks
+ * @param options - API key and base URL
+ */
+export function createAnalysisProvider(
+  name: AnalysisProviderName,
+  options: HttpProviderOptions = {}
+): AnalysisProvider {
+  return name === 'openai' ? createOpenAIProvider(options) : createAnthropicProvider(options);
+}
+
+/**
+ * Key a request by its content (model, prompt, images and output format), so
+ * the same request maps to the same recording or cache entry.
+ *
+ * @param scope - What else the answer depends on, such as the provider and
+ *   endpoint the request goes to
+ */
+export function analysisRequestKey(request: AnalysisRequest, scope?: string): string {
+  const hash = createHash('sha256').update(JSON.stringify(request));
+  if (scope) hash.update(`\n${scope}`);
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * A recorded request and its response, as stored on disk.
+ */
+export interface AnalysisRecording {
+  /** Key of the request, see {@link analysisRequestKey} */
+  key: string;
+  model: string;
+  /** The prompt's text blocks, for reading the recording; images are left out */
+  prompt: string[];
+  response: AnalysisResponse;
+}
+
+/**
+ * Provider that serves recorded responses from `<dir>/<key>.json`, or
+ * records them there from another provider.
+ *
+ * Recordings are keyed by a hash of the whole request, so replay works
+ * offline as long as the results file and options are unchanged. Edit a
+ * recording's `response.text` (or `response.data`, for structured output)
+ * to serve a canned answer in tests.
+ *
+ * @example
+ * ```typescript
+ * // Record once against the real API...
+ * const recorder = createReplayProvider('fixtures/analysis', { record: createAnthropicProvider({ apiKey }) });
+ * // ...then replay in CI without network access
+ * const replay = createReplayProvider('fixtures/analysis');
+ * ```
+ *
+ * @param dir - Directory of recordings
+ * @param options - `record`: the provider to call and record; omit to replay only
+ */
+export function createReplayProvider(
+  dir: string,
+  options: { record?: AnalysisProvider } = {}
+): AnalysisProvider {
+  const { record } = options;
+
+  return {
+    name: record ? `${record.name} (recording)` : 'Replay',
+    async analyze(request) {
+      if (record) {
+        const response = await record.analyze(request);
+        await writeRecording(dir, request, response);
+        return response;
+      }
+
+      const filepath = path.join(dir, `${analysisRequestKey(request)}.json`);
+      const recording = await readRecording(filepath);
+      if (!recording) {
+        throw new AnalysisProviderError(`No recorded response for this request: ${filepath}`, {
+          hint: 'Record one first with --record, or check that the results file and options are unchanged.',
+        });
+      }
+      return recording.response;
+    },
+  };
+}
+
+/**
+ * Read a recording, or undefined if there is none.
+ */
+async function readRecording(filepath: string): Promise<AnalysisRecording | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filepath, 'utf-8')) as AnalysisRecording;
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function writeRecording(
+  dir: string,
+  request: AnalysisRequest,
+  response: AnalysisResponse,
+  key = analysisRequestKey(request)
+): Promise<void> {
+  const recording: AnalysisRecording = {
+    key,
+    model: request.model,
+    prompt: [request.system, ...request.content.flatMap((block) => (block.type === 'text' ? [block.text] : []))],
+    response,
+  };
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${recording.key}.json`), JSON.stringify(recording, null, 2));
+}
+
+/**
+ * Where `analyze` caches responses unless told otherwise.
+ */
+export const DEFAULT_ANALYSIS_CACHE_DIR = '.personaspec-cache/analysis';
+
+/**
+ * Provider that answers repeated requests from an on-disk cache and sends
+ * new ones to another provider, caching the response.
+ *
+ * Entries are stored like {@link createReplayProvider} recordings, keyed by
+ * {@link analysisRequestKey} scoped to the provider's name and endpoint, so
+ * any change to the model, prompt, images or service misses the cache.
+ * Cached responses have `cached: true`.
+ *
+ * @param provider - Provider to call on a miss
+ * @param dir - Cache directory (default: {@link DEFAULT_ANALYSIS_CACHE_DIR})
+ * @param options - `refresh`: skip reading the cache, but still store the
+ *   fresh response. `accept`: store only responses this returns true for,
+ *   e.g. those whose output is valid, so a malformed reply isn't served again
+ */
+export function createCachedProvider(
+  provider: AnalysisProvider,
+  dir: string = DEFAULT_ANALYSIS_CACHE_DIR,
+  options: {
+    refresh?: boolean;
+    accept?: (request: AnalysisRequest, response: AnalysisResponse) => boolean;
+  } = {}
+): AnalysisProvider {
+  const scope = [provider.name, provider.endpoint].filter(Boolean).join(' ');
+
+  return {
+    name: provider.name,
+    ...(provider.endpoint && { endpoint: provider.endpoint }),
+    async analyze(request) {
+      const key = analysisRequestKey(request, scope);
+      if (!options.refresh) {
+        const recording = await readRecording(path.join(dir, `${key}.json`));
+        if (recording) {
+          return { ...recording.response, cached: true };
+        }
+      }
+
+      const response = await provider.analyze(request);
+      if (options.accept?.(request, response) ?? true) {
+        await writeRecording(dir, request, response, key);
+      }
+      return response;
+    },
+  };
+}
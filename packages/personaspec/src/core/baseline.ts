@@ -0,0 +1,133 @@
+import * as path from 'node:path';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import type { ScreenshotRegion, VisualBaselineOptions, VisualDiffStatus } from './types.js';
+
+/**
+ * Where baselines are stored when no directory is configured.
+ */
+export const DEFAULT_BASELINE_DIR = 'persona-baselines';
+
+/**
+ * Visual baseline options with defaults filled in.
+ */
+export type ResolvedVisualBaseline = Required<VisualBaselineOptions>;
+
+/**
+ * Result of comparing an image with its baseline.
+ */
+export interface BaselineComparison {
+  status: Exclude<VisualDiffStatus, 'new'>;
+  /** Number of differing pixels, when the sizes match */
+  diffPixels?: number;
+  /** Share of the image's pixels that differ (0-1), when the sizes match */
+  diffRatio?: number;
+  /** Image size in device pixels */
+  size: { width: number; height: number };
+  /** Baseline image size in device pixels */
+  baselineSize: { width: number; height: number };
+  /** PNG with the differing pixels drawn over a faded copy of the image */
+  diffImage?: Buffer;
+}
+
+/**
+ * Fill in defaults for the collector's `visualBaseline` option.
+ *
+ * @returns The resolved options, or undefined when comparison is off
+ */
+export function resolveVisualBaseline(
+  options: VisualBaselineOptions | boolean | undefined
+): ResolvedVisualBaseline | undefined {
+  if (!options) return undefined;
+  return {
+    dir: DEFAULT_BASELINE_DIR,
+    threshold: 0,
+    colorThreshold: 0.1,
+    ignoreAntialiasing: true,
+    mask: [],
+    ...(options === true ? {} : options),
+  };
+}
+
+/**
+ * Path of the baseline image for a persona's screenshot:
+ * `<dir>/<project>/<persona>/<name>.png`, or `<dir>/<persona>/<name>.png`
+ * without a project, with each part made filename-safe.
+ *
+ * @param dir - Baseline directory
+ * @param persona - Persona name and role, as in results files
+ * @param name - Screenshot name
+ * @param project - Playwright project, so each browser and viewport has its own baselines
+ */
+export function baselinePath(dir: string, persona: string, name: string, project?: string): string {
+  const safePersona = persona.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  const safeName = name.replace(/[^a-zA-Z0-9-_]/g, '-');
+  const safeProject = project?.replace(/[^a-zA-Z0-9-_]/g, '-');
+  return path.join(dir, ...(safeProject ? [safeProject] : []), safePersona, `${safeName}.png`);
+}
+
+/**
+ * Whether the bytes are a PNG image. Only PNG screenshots can be compared.
+ */
+export function isPng(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+}
+
+/**
+ * Copy the baseline's pixels into the image wherever a mask covers it, so
+ * masked regions never count as differences.
+ */
+function applyMasks(image: PNG, baseline: PNG, masks: ScreenshotRegion[], scale: number): void {
+  for (const mask of masks) {
+    const left = Math.max(0, Math.floor(mask.x * scale));
+    const top = Math.max(0, Math.floor(mask.y * scale));
+    const right = Math.min(image.width, Math.ceil((mask.x + mask.width) * scale));
+    const bottom = Math.min(image.height, Math.ceil((mask.y + mask.height) * scale));
+
+    for (let y = top; y < bottom; y++) {
+      const start = (y * image.width + left) * 4;
+      const end = (y * image.width + right) * 4;
+      if (end > start) baseline.data.copy(image.data, start, start, end);
+    }
+  }
+}
+
+/**
+ * Compare a PNG screenshot with its baseline, pixel by pixel.
+ *
+ * @param image - The new screenshot
+ * @param baseline - The stored baseline
+ * @param options - Thresholds and global masks
+ * @param masks - Regions of this screenshot to ignore, in CSS pixels
+ * @param cssSize - Screenshot size in CSS pixels, to scale masks to device pixels
+ */
+export function compareWithBaseline(
+  image: Buffer,
+  baseline: Buffer,
+  options: ResolvedVisualBaseline,
+  masks: ScreenshotRegion[] = [],
+  cssSize?: { width: number; height: number }
+): BaselineComparison {
+  const actual = PNG.sync.read(image);
+  const expected = PNG.sync.read(baseline);
+  const size = { width: actual.width, height: actual.height };
+  const baselineSize = { width: expected.width, height: expected.height };
+
+  if (size.width !== baselineSize.width || size.height !== baselineSize.height) {
+    return { status: 'resized', size, baselineSize };
+  }
+
+  const scale = cssSize?.width ? actual.width / cssSize.width : 1;
+  applyMasks(actual, expected, [...options.mask, ...masks], scale);
+
+  const diff = new PNG({ width: actual.width, height: actual.height });
+  const diffPixels = pixelmatch(actual.data, expected.data, diff.data, actual.width, actual.height, {
+    threshold: options.colorThreshold,
+    includeAA: !options.ignoreAntialiasing,
+  });
+  const diffRatio = diffPixels / (actual.width * actual.height);
+
+  return diffRatio > options.threshold
+    ? { status: 'changed', diffPixels, diffRatio, size, baselineSize, diffImage: PNG.sync.write(diff) }
+    : { status: 'match', diffPixels, diffRatio, size, baselineSize };
+}
@@ -0,0 +1,163 @@
+import type { Locator, Page } from '@playwright/test';
+import type {
+  HighlightTarget,
+  Screenshot,
+  ScreenshotAnnotation,
+  ScreenshotOptions,
+  ScreenshotRegion,
+} from './types.js';
+
+/**
+ * ID of the overlay element drawn into the page for highlights.
+ */
+const OVERLAY_ID = '__personaspec-highlights';
+
+/**
+ * Highlight outline and label color (PersonaSpec accent purple).
+ */
+const HIGHLIGHT_COLOR = '#7C5CFF';
+
+/**
+ * Result of a capture, before it is stored.
+ */
+export interface CaptureResult {
+  /** Image bytes */
+  buffer: Buffer;
+  /** What was captured */
+  capture: NonNullable<Screenshot['capture']>;
+  /** Image size in CSS pixels */
+  size?: { width: number; height: number };
+  /** Highlighted regions, relative to the image */
+  annotations: ScreenshotAnnotation[];
+  /** Regions to leave out of baseline comparison, relative to the image */
+  masks: ScreenshotRegion[];
+}
+
+function toHighlightTargets(highlight: ScreenshotOptions['highlight']): HighlightTarget[] {
+  if (!highlight) return [];
+  const items = Array.isArray(highlight) ? highlight : [highlight];
+  // A Locator has a locator() method; a HighlightTarget has a locator property
+  return items.map((item) =>
+    typeof item.locator === 'function' ? { locator: item as Locator } : (item as HighlightTarget)
+  );
+}
+
+/**
+ * Build the script that draws outlined, labelled boxes at document coordinates.
+ *
+ * The overlay goes on the root element rather than `<body>`, so a positioned
+ * or offset body doesn't shift the boxes.
+ */
+function overlayScript(boxes: ScreenshotAnnotation[]): string {
+  return `(() => {
+  const boxes = ${JSON.stringify(boxes)};
+  document.getElementById('${OVERLAY_ID}')?.remove();
+  const overlay = document.createElement('div');
+  overlay.id = '${OVERLAY_ID}';
+  overlay.style.cssText = 'position:absolute;left:0;top:0;width:0;height:0;pointer-events:none;z-index:2147483647;';
+  for (const box of boxes) {
+    const outline = document.createElement('div');
+    outline.style.cssText = 'position:absolute;box-sizing:border-box;border:3px solid ${HIGHLIGHT_COLOR};border-radius:4px;' +
+      'left:' + (box.x - 3) + 'px;top:' + (box.y - 3) + 'px;width:' + (box.width + 6) + 'px;height:' + (box.height + 6) + 'px;';
+    if (box.label) {
+      const label = document.createElement('span');
+      label.textContent = box.label;
+      label.style.cssText = 'position:absolute;left:-3px;bottom:100%;margin-bottom:2px;padding:2px 6px;' +
+        'background:${HIGHLIGHT_COLOR};color:#fff;font:600 12px/1.4 -apple-system,sans-serif;border-radius:3px;white-space:nowrap;';
+      outline.appendChild(label);
+    }
+    overlay.appendChild(outline);
+  }
+  document.documentElement.appendChild(overlay);
+})()`;
+}
+
+/**
+ * Capture a viewport, full-page or element screenshot, optionally with
+ * highlighted locators drawn in.
+ *
+ * Highlights are drawn into the page just before capture and removed right
+ * after. Their bounding boxes, and those of masked locators, are returned
+ * relative to the captured image so they can be redrawn later.
+ *
+ * @param page - Playwright page object
+ * @param options - What to capture and highlight
+ * @param format - Image format
+ */
+export async function captureScreenshot(
+  page: Page,
+  options: ScreenshotOptions,
+  format: 'png' | 'jpeg'
+): Promise<CaptureResult> {
+  const capture: CaptureResult['capture'] = options.locator
+    ? 'element'
+    : options.fullPage
+      ? 'fullPage'
+      : 'viewport';
+
+  const targets = toHighlightTargets(options.highlight);
+  const scroll =
+    targets.length > 0 || options.fullPage
+      ? ((await page.evaluate('({ x: window.scrollX, y: window.scrollY })')) as { x: number; y: number })
+      : { x: 0, y: 0 };
+
+  // Image origin in viewport coordinates
+  let origin = { x: 0, y: 0 };
+  let size: CaptureResult['size'] = page.viewportSize() ?? undefined;
+
+  if (options.locator) {
+    const box = await options.locator.boundingBox();
+    if (box) {
+      origin = { x: box.x, y: box.y };
+      size = { width: box.width, height: box.height };
+    }
+  } else if (options.fullPage) {
+    origin = { x: -scroll.x, y: -scroll.y };
+    size = (await page.evaluate(
+      '({ width: document.documentElement.scrollWidth, height: document.documentElement.scrollHeight })'
+    )) as { width: number; height: number };
+  }
+
+  // Bounding boxes are in viewport coordinates; skip locators that aren't visible
+  const highlights: ScreenshotAnnotation[] = [];
+  for (const [index, target] of targets.entries()) {
+    const box = await target.locator.boundingBox();
+    if (box) {
+      highlights.push({ label: target.label ?? String(index + 1), ...box });
+    }
+  }
+
+  const masks: ScreenshotRegion[] = [];
+  for (const locator of options.mask ? [options.mask].flat() : []) {
+    const box = await locator.boundingBox();
+    if (box) {
+      masks.push({ ...box, x: box.x - origin.x, y: box.y - origin.y });
+    }
+  }
+
+  if (highlights.length > 0) {
+    const documentBoxes = highlights.map((h) => ({ ...h, x: h.x + scroll.x, y: h.y + scroll.y }));
+    await page.evaluate(overlayScript(documentBoxes));
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = options.locator
+      ? await options.locator.screenshot({ type: format })
+      : await page.screenshot({ type: format, fullPage: Boolean(options.fullPage) });
+  } finally {
+    if (highlights.length > 0) {
+      await page
+        .evaluate(`document.getElementById('${OVERLAY_ID}')?.remove()`)
+        .catch(() => {});
+    }
+  }
+
+  return {
+    buffer,
+    capture,
+    size,
+    annotations: highlights.map((h) => ({ ...h, x: h.x - origin.x, y: h.y - origin.y })),
+    masks,
+  };
+}
@@ -0,0 +1,413 @@
+import type { Observation, PersonaTestResults, TaskResult } from './types.js';
+
+/**
+ * How an observation changed between two runs:
+ * - `resolved`: a problem from the first run is gone, or is now a success
+ * - `introduced`: a problem in the second run that wasn't there, or was a success
+ * - `persisting`: a problem in both runs
+ * - `unchanged`: a success in both runs
+ * - `added`: a success only in the second run
+ * - `removed`: a success only in the first run
+ */
+export type ObservationChangeKind =
+  | 'resolved'
+  | 'introduced'
+  | 'persisting'
+  | 'unchanged'
+  | 'added'
+  | 'removed';
+
+/**
+ * How a task changed between two runs.
+ */
+export type TaskChangeKind = 'fixed' | 'regressed' | 'passing' | 'failing' | 'added' | 'removed';
+
+/**
+ * An observation matched (or not) across two runs.
+ */
+export interface ObservationChange {
+  kind: ObservationChangeKind;
+  /** The observation in the first run */
+  before?: Observation;
+  /** The observation in the second run */
+  after?: Observation;
+  /** How the two were matched: the same stable ID, or similar location and description */
+  matchedBy?: 'id' | 'similarity';
+}
+
+/**
+ * A task matched (or not) across two runs.
+ */
+export interface TaskChange {
+  kind: TaskChangeKind;
+  /** The task in the first run */
+  before?: TaskResult;
+  /** The task in the second run */
+  after?: TaskResult;
+}
+
+/**
+ * A session metric in both runs.
+ */
+export interface MetricChange {
+  label: string;
+  before: number;
+  after: number;
+  /** Which direction is an improvement, if either */
+  better?: 'lower' | 'higher';
+}
+
+/**
+ * Everything that changed between two runs of the same persona.
+ */
+export interface ResultsDiff {
+  before: { persona: string; startTime: string };
+  after: { persona: string; startTime: string };
+  observations: ObservationChange[];
+  tasks: TaskChange[];
+  metrics: MetricChange[];
+}
+
+/**
+ * Display names for each kind of observation change, as section headings.
+ */
+export const OBSERVATION_CHANGE_LABELS: Record<ObservationChangeKind, string> = {
+  resolved: 'Resolved issues',
+  introduced: 'New issues',
+  persisting: 'Persisting issues',
+  added: 'New successes',
+  removed: 'Successes no longer observed',
+  unchanged: 'Unchanged successes',
+};
+
+/**
+ * Display names for each kind of task change.
+ */
+export const TASK_CHANGE_LABELS: Record<TaskChangeKind, string> = {
+  fixed: 'Fixed',
+  regressed: 'Regressed',
+  passing: 'Still passing',
+  failing: 'Still failing',
+  added: 'New task',
+  removed: 'No longer run',
+};
+
+/**
+ * Smallest similarity for two observations with different IDs to be
+ * treated as the same finding.
+ */
+export const OBSERVATION_MATCH_SCORE = 0.5;
+
+/**
+ * Smallest similarity for two tasks with different IDs to be treated as
+ * the same task.
+ */
+const TASK_MATCH_SCORE = 0.6;
+
+/**
+ * Lowercase words with a plural "s" removed, so "heights" matches "height".
+ */
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).map((word) =>
+    word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+  );
+}
+
+/**
+ * Dice coefficient of the two texts' word sets, from 0 (nothing shared)
+ * to 1 (the same words).
+ */
+function textSimilarity(a: string, b: string): number {
+  const wordsA = new Set(words(a));
+  const wordsB = new Set(words(b));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * How likely two observations describe the same finding, from 0 to 1. The
+ * description counts for more than the location, and must share at least
+ * some words.
+ */
+export function observationSimilarity(a: Observation, b: Observation): number {
+  const description = textSimilarity(a.description, b.description);
+  if (description < 0.2) return 0;
+  return 0.4 * textSimilarity(a.location, b.location) + 0.6 * description;
+}
+
+/**
+ * Pair records across two runs: first by stable ID, then greedily by
+ * highest similarity, so each record is matched at most once.
+ */
+function matchRecords<T extends { id: string }>(
+  before: T[],
+  after: T[],
+  similarity: (a: T, b: T) => number,
+  minScore: number
+): { pairs: Array<{ before: T; after: T; matchedBy: 'id' | 'similarity' }>; removed: T[]; added: T[] } {
+  const pairs: Array<{ before: T; after: T; matchedBy: 'id' | 'similarity' }> = [];
+  const unmatchedAfter = new Set(after);
+  const afterById = new Map(after.map((record) => [record.id, record]));
+  const rest: T[] = [];
+
+  for (const record of before) {
+    const match = afterById.get(record.id);
+    if (match && unmatchedAfter.has(match)) {
+      pairs.push({ before: record, after: match, matchedBy: 'id' });
+      unmatchedAfter.delete(match);
+    } else {
+      rest.push(record);
+    }
+  }
+
+  const candidates = rest
+    .flatMap((a) => [...unmatchedAfter].map((b) => ({ a, b, score: similarity(a, b) })))
+    .filter((candidate) => candidate.score >= minScore)
+    .sort((x, y) => y.score - x.score);
+
+  const matchedBefore = new Set<T>();
+  for (const { a, b } of candidates) {
+    if (matchedBefore.has(a) || !unmatchedAfter.has(b)) continue;
+    pairs.push({ before: a, after: b, matchedBy: 'similarity' });
+    matchedBefore.add(a);
+    unmatchedAfter.delete(b);
+  }
+
+  return {
+    pairs,
+    removed: rest.filter((record) => !matchedBefore.has(record)),
+    added: after.filter((record) => unmatchedAfter.has(record)),
+  };
+}
+
+function isIssue(observation: Observation): boolean {
+  return observation.type !== 'success';
+}
+
+function diffObservations(before: Observation[], after: Observation[]): ObservationChange[] {
+  const { pairs, removed, added } = matchRecords(
+    before,
+    after,
+    observationSimilarity,
+    OBSERVATION_MATCH_SCORE
+  );
+
+  const changes: ObservationChange[] = pairs.map((pair) => {
+    const wasIssue = isIssue(pair.before);
+    const nowIssue = isIssue(pair.after);
+    const kind: ObservationChangeKind =
+      wasIssue && nowIssue
+        ? 'persisting'
+        : wasIssue
+          ? 'resolved'
+          : nowIssue
+            ? 'introduced'
+            : 'unchanged';
+    return { kind, ...pair };
+  });
+
+  for (const observation of removed) {
+    changes.push({ kind: isIssue(observation) ? 'resolved' : 'removed', before: observation });
+  }
+  for (const observation of added) {
+    changes.push({ kind: isIssue(observation) ? 'introduced' : 'added', after: observation });
+  }
+
+  return changes;
+}
+
+function diffTasks(before: TaskResult[], after: TaskResult[]): TaskChange[] {
+  const { pairs, removed, added } = matchRecords(
+    before,
+    after,
+    (a, b) => textSimilarity(a.name, b.name),
+    TASK_MATCH_SCORE
+  );
+
+  return [
+    ...pairs.map(({ before: b, after: a }): TaskChange => ({
+      kind:
+        b.success && a.success
+          ? 'passing'
+          : b.success
+            ? 'regressed'
+            : a.success
+              ? 'fixed'
+              : 'failing',
+      before: b,
+      after: a,
+    })),
+    ...removed.map((task): TaskChange => ({ kind: 'removed', before: task })),
+    ...added.map((task): TaskChange => ({ kind: 'added', after: task })),
+  ];
+}
+
+function averageTaskTime(tasks: TaskResult[]): number {
+  const durations = tasks.map((t) => t.duration).filter((d) => d > 0);
+  return durations.length ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length) : 0;
+}
+
+/**
+ * Session metrics compared between runs, in display order.
+ */
+const DIFF_METRICS: Array<Omit<MetricChange, 'before' | 'after'> & { value: (results: PersonaTestResults) => number }> = [
+  { label: 'Tasks passed', better: 'higher', value: (r) => r.tasks.filter((t) => t.success).length },
+  { label: 'Issues', better: 'lower', value: (r) => r.observations.filter(isIssue).length },
+  {
+    label: 'Critical issues',
+    better: 'lower',
+    value: (r) => r.observations.filter((o) => o.severity === 'critical').length,
+  },
+  { label: 'Successes', better: 'higher', value: (r) => r.observations.filter((o) => !isIssue(o)).length },
+  { label: 'Errors', better: 'lower', value: (r) => r.session.errors?.length ?? r.session.consoleErrors.length },
+  { label: 'Average task time (ms)', better: 'lower', value: (r) => averageTaskTime(r.tasks) },
+  { label: 'Pages visited', value: (r) => r.session.pagesVisited },
+  { label: 'Clicks', better: 'lower', value: (r) => r.session.clickCount },
+  { label: 'Searches', better: 'lower', value: (r) => r.session.searchCount },
+  { label: 'Back navigations', better: 'lower', value: (r) => r.session.backNavCount },
+  { label: 'Screenshots', value: (r) => r.session.screenshotsCaptured ?? r.screenshots.length },
+];
+
+/**
+ * Compare two runs of a persona: which observations went away or appeared,
+ * which tasks flipped between failing and passing, and how session metrics
+ * moved.
+ *
+ * Observations and tasks are matched by stable ID first. The rest are
+ * paired by similar location and description (observations) or name
+ * (tasks), so hand-written results and reworded findings still line up.
+ *
+ * @example
+ * ```typescript
+ * const diff = diffResults(await readResults('before.json'), await readResults('after.json'));
+ * const fixed = diff.observations.filter((c) => c.kind === 'resolved');
+ * ```
+ *
+ * @param before - Results of the earlier run
+ * @param after - Results of the later run
+ * @returns The changes between them
+ */
+export function diffResults(before: PersonaTestResults, after: PersonaTestResults): ResultsDiff {
+  return {
+    before: { persona: before.persona, startTime: before.session.startTime },
+    after: { persona: after.persona, startTime: after.session.startTime },
+    observations: diffObservations(before.observations, after.observations),
+    tasks: diffTasks(before.tasks, after.tasks),
+    metrics: DIFF_METRICS.map(({ value, ...metric }) => ({
+      ...metric,
+      before: value(before),
+      after: value(after),
+    })),
+  };
+}
+
+/**
+ * Format a metric's change, e.g. `+3` or `-1,200`, or an empty string if
+ * it didn't move.
+ */
+export function formatMetricDelta(metric: MetricChange): string {
+  const delta = metric.after - metric.before;
+  if (delta === 0) return '';
+  return `${delta > 0 ? '+' : '-'}${Math.abs(delta).toLocaleString('en-US')}`;
+}
+
+/**
+ * Whether a metric moved in its better direction (`true`), its worse
+ * direction (`false`), or neither (`undefined`).
+ */
+export function isMetricImproved(metric: MetricChange): boolean | undefined {
+  if (!metric.better || metric.after === metric.before) return undefined;
+  return metric.better === 'lower' ? metric.after < metric.before : metric.after > metric.before;
+}
+
+function observationLine(observation: Observation): string {
+  return `**[${observation.type}${observation.severity ? `, ${observation.severity}` : ''}]** ${
+    observation.location
+  } — ${observation.description}`;
+}
+
+/**
+ * Make text safe inside a Markdown table cell: a pipe would end the cell and
+ * a line break the row.
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\r?\n\s*/g, ' ');
+}
+
+/**
+ * Write a diff as a Markdown change report.
+ *
+ * @param diff - Output of {@link diffResults}
+ * @param labels - Names for the two runs (default: "Before" and "After")
+ */
+export function formatDiffMarkdown(
+  diff: ResultsDiff,
+  labels: { before: string; after: string } = { before: 'Before', after: 'After' }
+): string {
+  const count = (kind: ObservationChangeKind) => diff.observations.filter((c) => c.kind === kind).length;
+  const taskCount = (kind: TaskChangeKind) => diff.tasks.filter((c) => c.kind === kind).length;
+  const persona =
+    diff.before.persona === diff.after.persona
+      ? diff.after.persona
+      : `${diff.before.persona} → ${diff.after.persona}`;
+
+  const before = tableCell(labels.before);
+  const after = tableCell(labels.after);
+
+  const lines = [
+    `# PersonaSpec Diff: ${persona}`,
+    '',
+    `- **${labels.before}:** ${diff.before.startTime}`,
+    `- **${labels.after}:** ${diff.after.startTime}`,
+    '',
+    '## Summary',
+    '',
+    `- ${count('resolved')} issue(s) resolved, ${count('introduced')} new, ${count('persisting')} persisting`,
+    `- ${taskCount('fixed')} task(s) fixed, ${taskCount('regressed')} regressed`,
+    '',
+    '## Metrics',
+    '',
+    `| Metric | ${before} | ${after} | Change |`,
+    '|--------|------:|------:|-------:|',
+    ...diff.metrics.map((metric) => {
+      const improved = isMetricImproved(metric);
+      const marker = improved === undefined ? '' : improved ? ' ✓' : ' ✗';
+      return `| ${tableCell(metric.label)} | ${metric.before.toLocaleString('en-US')} | ${metric.after.toLocaleString(
+        'en-US'
+      )} | ${formatMetricDelta(metric)}${marker} |`;
+    }),
+    '',
+    '## Tasks',
+    '',
+    `| Task | ${before} | ${after} | Change |`,
+    '|------|--------|-------|--------|',
+    ...diff.tasks.map((change) => {
+      const status = (task: TaskResult | undefined) => (task ? (task.success ? '✅' : '❌') : '—');
+      const name = tableCell(change.after?.name ?? change.before?.name ?? '');
+      return `| ${name} | ${status(change.before)} | ${status(change.after)} | ${TASK_CHANGE_LABELS[change.kind]} |`;
+    }),
+  ];
+
+  const sections: ObservationChangeKind[] = ['resolved', 'introduced', 'persisting', 'added', 'removed'];
+  for (const kind of sections) {
+    const changes = diff.observations.filter((c) => c.kind === kind);
+    if (changes.length === 0) continue;
+
+    lines.push('', `## ${OBSERVATION_CHANGE_LABELS[kind]}`, '');
+    for (const change of changes) {
+      const [primary, other] = change.before ? [change.before, change.after] : [change.after, undefined];
+      if (!primary) continue;
+      lines.push(`- ${observationLine(primary)}`);
+      if (other) {
+        lines.push(`  - ${labels.after}: ${observationLine(other)}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,169 @@
+import {
+  devices,
+  type Browser,
+  type BrowserContext,
+  type BrowserContextOptions,
+  type Page,
+} from '@playwright/test';
+import type {
+  NetworkConditions,
+  NetworkPresetName,
+  PersonaDefinition,
+  PersonaEnvironment,
+} from './types.js';
+
+/**
+ * Network speeds matching the Chrome DevTools throttling presets.
+ */
+export const networkPresets: Record<Exclude<NetworkPresetName, 'offline'>, NetworkConditions> = {
+  slow3g: { downloadKbps: 400, uploadKbps: 400, latencyMs: 2000 },
+  fast3g: { downloadKbps: 1440, uploadKbps: 675, latencyMs: 562.5 },
+  slow4g: { downloadKbps: 1600, uploadKbps: 750, latencyMs: 150 },
+};
+
+/**
+ * Playwright's window size when none is configured.
+ */
+const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
+
+/**
+ * Translate a persona environment into Playwright context options.
+ *
+ * Zoom is emulated the way browsers do it: the CSS viewport shrinks by the
+ * zoom factor and the device scale factor grows by it, so media queries and
+ * text sizes respond as they would for the persona.
+ *
+ * @param environment - The persona's environment
+ * @param base - Options the environment is applied on top of, used as the
+ *   starting size for zoom
+ * @param browserName - Browser the context is for. Firefox doesn't support
+ *   `isMobile`, so a device's `isMobile` is left out there; the rest of the
+ *   device (viewport, user agent, touch) still applies.
+ * @returns Only the options the environment sets
+ * @throws If the environment names an unknown Playwright device
+ */
+export function environmentContextOptions(
+  environment: PersonaEnvironment | undefined,
+  base: Pick<BrowserContextOptions, 'viewport' | 'deviceScaleFactor'> = {},
+  browserName?: string
+): BrowserContextOptions {
+  if (!environment) return {};
+
+  const options: BrowserContextOptions = {};
+
+  if (environment.device) {
+    const descriptor = devices[environment.device];
+    if (!descriptor) {
+      throw new Error(`Unknown Playwright device "${environment.device}" in persona environment`);
+    }
+    const { defaultBrowserType: _browserType, isMobile, ...deviceOptions } = descriptor;
+    Object.assign(options, deviceOptions);
+    // Firefox rejects isMobile when creating the context
+    if (browserName !== 'firefox') options.isMobile = isMobile;
+  }
+
+  if (environment.viewport) options.viewport = { ...environment.viewport };
+  if (environment.locale) options.locale = environment.locale;
+  if (environment.timezone) options.timezoneId = environment.timezone;
+  if (environment.colorScheme) options.colorScheme = environment.colorScheme;
+  if (environment.reducedMotion) options.reducedMotion = environment.reducedMotion;
+  if (environment.network === 'offline') options.offline = true;
+
+  if (environment.input === 'touch') {
+    options.hasTouch = true;
+  } else if (environment.input) {
+    options.hasTouch = false;
+  }
+
+  if (environment.zoom && environment.zoom !== 1) {
+    const viewport = options.viewport ?? base.viewport ?? DEFAULT_VIEWPORT;
+    options.viewport = {
+      width: Math.round(viewport.width / environment.zoom),
+      height: Math.round(viewport.height / environment.zoom),
+    };
+    options.deviceScaleFactor =
+      (options.deviceScaleFactor ?? base.deviceScaleFactor ?? 1) * environment.zoom;
+  }
+
+  return options;
+}
+
+/**
+ * Apply the environment's network and CPU throttling to a page through the
+ * Chrome DevTools Protocol.
+ *
+ * @param page - Playwright page object
+ * @param environment - The persona's environment
+ * @returns Whether throttling was applied (false when there is nothing to
+ *   throttle or the browser isn't Chromium)
+ */
+export async function applyEnvironmentThrottling(
+  page: Page,
+  environment: PersonaEnvironment | undefined
+): Promise<boolean> {
+  const network =
+    typeof environment?.network === 'string'
+      ? environment.network === 'offline'
+        ? undefined
+        : networkPresets[environment.network]
+      : environment?.network;
+  const cpuSlowdown = environment?.cpuSlowdown;
+  if (!network && !(cpuSlowdown && cpuSlowdown > 1)) return false;
+
+  try {
+    const session = await page.context().newCDPSession(page);
+    if (network) {
+      await session.send('Network.enable');
+      await session.send('Network.emulateNetworkConditions', {
+        offline: false,
+        latency: network.latencyMs,
+        downloadThroughput: (network.downloadKbps * 1000) / 8,
+        uploadThroughput: (network.uploadKbps * 1000) / 8,
+      });
+    }
+    if (cpuSlowdown && cpuSlowdown > 1) {
+      await session.send('Emulation.setCPUThrottlingRate', { rate: cpuSlowdown });
+    }
+    return true;
+  } catch {
+    // Firefox and WebKit don't support CDP
+    return false;
+  }
+}
+
+/**
+ * Create a browser context set up like the persona's device and preferences.
+ *
+ * Network and CPU throttling are applied to each page as it opens (Chromium
+ * only), and a device's `isMobile` is skipped on Firefox. To be sure the
+ * first navigation is throttled, await
+ * `applyEnvironmentThrottling(page, persona.environment)` before it.
+ *
+ * @example
+ * ```typescript
+ * const persona = personaTemplates.mobileUser({ environment: templateEnvironments.mobileUser });
+ * const context = await createPersonaContext(browser, persona);
+ * const page = await context.newPage();
+ * ```
+ *
+ * @param browser - Playwright browser
+ * @param persona - Persona whose `environment` to apply
+ * @param options - Base context options; the environment is applied on top
+ * @returns The new context
+ */
+export async function createPersonaContext(
+  browser: Browser,
+  persona: PersonaDefinition,
+  options: BrowserContextOptions = {}
+): Promise<BrowserContext> {
+  const context = await browser.newContext({
+    ...options,
+    ...environmentContextOptions(persona.environment, options, browser.browserType().name()),
+  });
+
+  context.on('page', (page) => {
+    void applyEnvironmentThrottling(page, persona.environment);
+  });
+
+  return context;
+}
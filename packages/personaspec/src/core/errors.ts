@@ -0,0 +1,71 @@
+import type { SessionError, SessionErrorKind } from './types.js';
+
+/**
+ * Display names for each kind of session error.
+ */
+export const SESSION_ERROR_LABELS: Record<SessionErrorKind, string> = {
+  pageError: 'Uncaught exceptions',
+  httpError: 'HTTP errors',
+  requestFailed: 'Failed requests',
+  console: 'Console errors',
+};
+
+/**
+ * Repeats of the same error, grouped for display.
+ */
+export interface SessionErrorGroup {
+  /** The first occurrence */
+  error: SessionError;
+  /** How many times it happened */
+  count: number;
+  /** Pages it happened on, in first-seen order */
+  pageUrls: string[];
+  /** Tasks it happened during, in first-seen order */
+  taskIds: string[];
+}
+
+/**
+ * Group repeats of the same error (same kind, message, URL and status),
+ * ordered by kind as in {@link SESSION_ERROR_LABELS}, then by first occurrence.
+ *
+ * @param errors - Errors from `session.errors`
+ */
+export function groupSessionErrors(errors: SessionError[]): SessionErrorGroup[] {
+  const groups = new Map<string, SessionErrorGroup>();
+
+  for (const error of errors) {
+    const key = [error.kind, error.message, error.url ?? '', error.status ?? ''].join('\n');
+    let group = groups.get(key);
+    if (!group) {
+      group = { error, count: 0, pageUrls: [], taskIds: [] };
+      groups.set(key, group);
+    }
+    group.count++;
+    if (error.pageUrl && !group.pageUrls.includes(error.pageUrl)) group.pageUrls.push(error.pageUrl);
+    if (error.taskId && !group.taskIds.includes(error.taskId)) group.taskIds.push(error.taskId);
+  }
+
+  const kindOrder = Object.keys(SESSION_ERROR_LABELS);
+  return [...groups.values()].sort(
+    (a, b) => kindOrder.indexOf(a.error.kind) - kindOrder.indexOf(b.error.kind)
+  );
+}
+
+/**
+ * One-line summary of an error, e.g.
+ * `GET https://api.example.com/plans → 500 Internal Server Error`.
+ */
+export function formatSessionError(error: SessionError): string {
+  if (error.kind === 'httpError' || error.kind === 'requestFailed') {
+    return `${error.method ?? 'GET'} ${error.url} → ${error.message}`;
+  }
+  return `${error.message}${error.url ? ` (${error.url})` : ''}`;
+}
+
+/**
+ * One-line summary of an error group, e.g.
+ * `GET https://api.example.com/plans → 500 Internal Server Error (×3)`.
+ */
+export function formatSessionErrorGroup({ error, count }: SessionErrorGroup): string {
+  return `${formatSessionError(error)}${count > 1 ? ` (×${count})` : ''}`;
+}
@@ -1,4 +1,5 @@
-import type { PersonaDefinition } from './types.js';
+import { devices } from '@playwright/test';
+import type { FrustrationDetectorOptions, PersonaDefinition, PersonaEnvironment } from './types.js';
 
 /**
  * Create a well-formed persona definition with validation.
@@ -20,21 +21,12 @@ export function definePersona(config: {
   background: string;
   goals: string[];
   behaviors: string[];
+  environment?: PersonaEnvironment;
+  frustrationDetectors?: FrustrationDetectorOptions | false;
 }): PersonaDefinition {
-  if (!config.name?.trim()) {
-    throw new Error('Persona must have a name');
-  }
-  if (!config.role?.trim()) {
-    throw new Error('Persona must have a role');
-  }
-  if (!config.background?.trim()) {
-    throw new Error('Persona must have a background');
-  }
-  if (!config.goals?.length) {
-    throw new Error('Persona must have at least one goal');
-  }
-  if (!config.behaviors?.length) {
-    throw new Error('Persona must have at least one behavior');
+  const [issue] = validatePersona(config);
+  if (issue) {
+    throw new Error(issue.message);
   }
 
   return {
@@ -43,9 +35,315 @@ export function definePersona(config: {
     background: config.background.trim(),
     goals: config.goals.map((g) => g.trim()),
     behaviors: config.behaviors.map((b) => b.trim()),
+    ...(config.environment && { environment: { ...config.environment } }),
+    ...(config.frustrationDetectors !== undefined && {
+      frustrationDetectors:
+        config.frustrationDetectors === false ? false : { ...config.frustrationDetectors },
+    }),
   };
 }
 
+/**
+ * A single problem found when validating a persona.
+ */
+export interface PersonaValidationIssue {
+  /** The persona field the problem relates to */
+  field: keyof PersonaDefinition;
+  /** Keys within the field leading to the problem, e.g. `['viewport']` for an environment's viewport */
+  path?: string[];
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * A problem inside a nested persona field, before it is tied to the field.
+ */
+type NestedIssue = Omit<PersonaValidationIssue, 'field'>;
+
+/**
+ * Check a persona against the rules `definePersona` enforces.
+ *
+ * Unlike `definePersona`, this reports every problem instead of throwing on
+ * the first one, and tolerates values of the wrong type (as found in
+ * hand-written persona files).
+ *
+ * @param config - The candidate persona
+ * @returns All problems found, in field order (empty if valid)
+ */
+export function validatePersona(config: Record<string, unknown>): PersonaValidationIssue[] {
+  const issues: PersonaValidationIssue[] = [];
+  const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+  if (!isText(config.name)) {
+    issues.push({ field: 'name', message: 'Persona must have a name' });
+  }
+  if (!isText(config.role)) {
+    issues.push({ field: 'role', message: 'Persona must have a role' });
+  }
+  if (!isText(config.background)) {
+    issues.push({ field: 'background', message: 'Persona must have a background' });
+  }
+
+  for (const field of ['goals', 'behaviors'] as const) {
+    const value = config[field];
+    const singular = field === 'goals' ? 'goal' : 'behavior';
+    if (!Array.isArray(value) || value.length === 0) {
+      issues.push({ field, message: `Persona must have at least one ${singular}` });
+    } else if (!value.every((item) => typeof item === 'string')) {
+      issues.push({ field, message: `Persona ${field} must all be text` });
+    }
+  }
+
+  if (config.environment !== undefined) {
+    for (const issue of validateEnvironment(config.environment)) {
+      issues.push({ field: 'environment', ...issue });
+    }
+  }
+
+  if (config.frustrationDetectors !== undefined) {
+    for (const issue of validateFrustrationDetectors(config.frustrationDetectors)) {
+      issues.push({ field: 'frustrationDetectors', ...issue });
+    }
+  }
+
+  return issues;
+}
+
+const ENVIRONMENT_CHOICES = {
+  network: ['slow3g', 'fast3g', 'slow4g', 'offline'],
+  colorScheme: ['light', 'dark', 'no-preference'],
+  reducedMotion: ['reduce', 'no-preference'],
+  input: ['mouse', 'touch', 'keyboard'],
+};
+
+/**
+ * Check a persona environment, tolerating values of the wrong type.
+ */
+function validateEnvironment(environment: unknown): NestedIssue[] {
+  if (typeof environment !== 'object' || environment === null || Array.isArray(environment)) {
+    return [{ message: 'Persona environment must be an object' }];
+  }
+
+  const env = environment as Record<string, unknown>;
+  const issues: NestedIssue[] = [];
+  const report = (field: string, message: string) => issues.push({ path: [field], message });
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+  const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+  const oneOf = (field: keyof typeof ENVIRONMENT_CHOICES) =>
+    `Persona environment ${field} must be one of: ${ENVIRONMENT_CHOICES[field].join(', ')}`;
+
+  const known = [
+    'device',
+    'viewport',
+    'network',
+    'cpuSlowdown',
+    'locale',
+    'timezone',
+    'colorScheme',
+    'reducedMotion',
+    'zoom',
+    'input',
+  ];
+  for (const field of Object.keys(env)) {
+    if (!known.includes(field)) {
+      report(field, `Unknown persona environment field "${field}"`);
+    }
+  }
+
+  for (const field of ['device', 'locale', 'timezone'] as const) {
+    if (env[field] !== undefined && !isText(env[field])) {
+      report(field, `Persona environment ${field} must be text`);
+    }
+  }
+
+  // Checked here so a typo fails validation rather than the test run
+  if (isText(env.device) && !devices[env.device as string]) {
+    report('device', `Unknown Playwright device "${env.device}" in persona environment`);
+  }
+
+  if (env.viewport !== undefined) {
+    const viewport = env.viewport as Record<string, unknown> | null;
+    if (
+      typeof viewport !== 'object' ||
+      viewport === null ||
+      !isNumber(viewport.width) ||
+      !isNumber(viewport.height) ||
+      viewport.width <= 0 ||
+      viewport.height <= 0
+    ) {
+      report('viewport', 'Persona environment viewport must have a positive width and height');
+    }
+  }
+
+  if (env.network !== undefined && typeof env.network === 'string') {
+    if (!ENVIRONMENT_CHOICES.network.includes(env.network)) report('network', oneOf('network'));
+  } else if (env.network !== undefined) {
+    const network = env.network as Record<string, unknown> | null;
+    const valid =
+      typeof network === 'object' &&
+      network !== null &&
+      (['downloadKbps', 'uploadKbps', 'latencyMs'] as const).every(
+        (key) => isNumber(network[key]) && network[key] >= 0
+      );
+    if (!valid) {
+      report('network', `${oneOf('network')}, or set downloadKbps, uploadKbps and latencyMs`);
+    }
+  }
+
+  if (env.cpuSlowdown !== undefined && !(isNumber(env.cpuSlowdown) && env.cpuSlowdown >= 1)) {
+    report('cpuSlowdown', 'Persona environment cpuSlowdown must be a number of at least 1');
+  }
+  if (env.zoom !== undefined && !(isNumber(env.zoom) && env.zoom > 0)) {
+    report('zoom', 'Persona environment zoom must be a positive number (2 for 200%)');
+  }
+
+  for (const field of ['colorScheme', 'reducedMotion', 'input'] as const) {
+    if (env[field] !== undefined && !ENVIRONMENT_CHOICES[field].includes(env[field] as string)) {
+      report(field, oneOf(field));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Settings each frustration detector accepts.
+ */
+const DETECTOR_SETTINGS: Record<string, string[]> = {
+  rageClick: ['clicks', 'withinMs', 'radiusPx'],
+  deadClick: ['waitMs'],
+  thrashing: ['navigations', 'withinMs'],
+  idle: ['afterMs'],
+  repeatedSearch: ['times'],
+};
+
+/**
+ * Check a persona's frustration detector settings, tolerating values of the
+ * wrong type.
+ */
+function validateFrustrationDetectors(detectors: unknown): NestedIssue[] {
+  if (detectors === false) return [];
+  if (typeof detectors !== 'object' || detectors === null || Array.isArray(detectors)) {
+    return [{ message: 'Persona frustrationDetectors must be an object, or false to turn them off' }];
+  }
+
+  const issues: NestedIssue[] = [];
+  for (const [detector, settings] of Object.entries(detectors)) {
+    const known = DETECTOR_SETTINGS[detector];
+    if (!known) {
+      issues.push({
+        path: [detector],
+        message: `Unknown frustration detector "${detector}" (expected one of: ${Object.keys(DETECTOR_SETTINGS).join(', ')})`,
+      });
+      continue;
+    }
+    if (settings === false) continue;
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      issues.push({
+        path: [detector],
+        message: `Frustration detector ${detector} must be an object, or false to turn it off`,
+      });
+      continue;
+    }
+
+    for (const [setting, value] of Object.entries(settings)) {
+      if (!known.includes(setting)) {
+        issues.push({ path: [detector, setting], message: `Unknown ${detector} setting "${setting}"` });
+      } else if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        issues.push({
+          path: [detector, setting],
+          message: `Frustration detector ${detector}.${setting} must be a positive number`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Describe an environment as `label: value` lines for reports and prompts.
+ */
+export function describePersonaEnvironment(environment: PersonaEnvironment): string[] {
+  const lines: string[] = [];
+  const network = environment.network;
+
+  if (environment.device) lines.push(`Device: ${environment.device}`);
+  if (environment.viewport) {
+    lines.push(`Viewport: ${environment.viewport.width}×${environment.viewport.height}`);
+  }
+  if (environment.zoom && environment.zoom !== 1) {
+    lines.push(`Zoom: ${Math.round(environment.zoom * 100)}%`);
+  }
+  if (network) {
+    lines.push(
+      `Network: ${
+        typeof network === 'string'
+          ? network
+          : `${network.downloadKbps} kbps down, ${network.uploadKbps} kbps up, ${network.latencyMs} ms latency`
+      }`
+    );
+  }
+  if (environment.cpuSlowdown && environment.cpuSlowdown > 1) {
+    lines.push(`CPU: ${environment.cpuSlowdown}× slower`);
+  }
+  if (environment.input) lines.push(`Input: ${environment.input}`);
+  if (environment.locale) lines.push(`Locale: ${environment.locale}`);
+  if (environment.timezone) lines.push(`Timezone: ${environment.timezone}`);
+  if (environment.colorScheme) lines.push(`Color scheme: ${environment.colorScheme}`);
+  if (environment.reducedMotion) lines.push(`Reduced motion: ${environment.reducedMotion}`);
+
+  return lines;
+}
+
+/**
+ * Environments to match each template in `personaTemplates`: the phone,
+ * network and CPU of `mobileUser`, the zoom of `accessibilityAuditor`, and
+ * typical screen sizes for the desktop personas.
+ *
+ * Templates don't apply them on their own, so a template never overrides
+ * your project's viewport, touch or network settings. Pass one as
+ * `environment` to opt in.
+ *
+ * @example
+ * ```typescript
+ * const persona = personaTemplates.mobileUser({ environment: templateEnvironments.mobileUser });
+ * ```
+ */
+export const templateEnvironments = {
+  firstTimeVisitor: {
+    viewport: { width: 1366, height: 768 },
+    input: 'mouse',
+  },
+  powerUser: {
+    viewport: { width: 1920, height: 1080 },
+    input: 'keyboard',
+  },
+  accessibilityAuditor: {
+    zoom: 2,
+    reducedMotion: 'reduce',
+    input: 'keyboard',
+  },
+  designReviewer: {
+    viewport: { width: 1440, height: 900 },
+    input: 'mouse',
+  },
+  skepticalEvaluator: {
+    viewport: { width: 1440, height: 900 },
+    input: 'mouse',
+  },
+  supportSeeker: {
+    viewport: { width: 1280, height: 800 },
+    input: 'mouse',
+  },
+  mobileUser: {
+    device: 'iPhone 13',
+    network: 'slow4g',
+    cpuSlowdown: 4,
+    input: 'touch',
+  },
+} satisfies Record<string, PersonaEnvironment>;
+
 /**
  * Pre-built persona templates that can be customized.
  * Use these as starting points and override any attributes as needed.
@@ -0,0 +1,48 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Turn text into a short, URL- and HTML-id-safe slug.
+ */
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'untitled'
+  );
+}
+
+/**
+ * Base IDs for each kind of record. They are derived from the record's
+ * content, so the same task, screenshot, observation or test gets the same
+ * ID in every run and can be matched across runs.
+ */
+export const recordIds = {
+  task: (name: string) => `task-${slugify(name)}`,
+  screenshot: (name: string) => `shot-${slugify(name)}`,
+  test: (title: string) => `test-${slugify(title)}`,
+  observation: (observation: { type: string; location: string; description: string }) =>
+    `obs-${createHash('sha1')
+      .update(`${observation.type}|${observation.location}|${observation.description}`)
+      .digest('hex')
+      .slice(0, 10)}`,
+};
+
+/**
+ * Create a function that makes IDs unique within one results file by
+ * appending `-2`, `-3`, ... to repeats.
+ *
+ * @param existing - IDs already in use
+ */
+export function createIdAllocator(existing: Iterable<string> = []): (id: string) => string {
+  const used = new Set(existing);
+  return (id) => {
+    let candidate = id;
+    for (let n = 2; used.has(candidate); n++) {
+      candidate = `${id}-${n}`;
+    }
+    used.add(candidate);
+    return candidate;
+  };
+}
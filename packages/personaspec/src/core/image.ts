@@ -0,0 +1,340 @@
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { readScreenshotImage } from './screenshotStore.js';
+import type { Screenshot, ScreenshotRegion } from './types.js';
+
+/**
+ * Image formats screenshots can be captured in.
+ */
+export type ImageFormat = 'png' | 'jpeg';
+
+export const IMAGE_MEDIA_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+};
+
+/**
+ * Limits an image must fit before it is sent or embedded. Unset limits
+ * aren't enforced.
+ */
+export interface ImageBudget {
+  /** Largest encoded size, in bytes */
+  maxBytes?: number;
+  /** Largest area, in pixels */
+  maxPixels?: number;
+  /** Longest edge, in pixels */
+  maxDimension?: number;
+}
+
+/**
+ * Budget for images sent to a vision model. Models scale larger images down
+ * to about 1.15 megapixels anyway, and base64 adds a third to the byte size,
+ * so this keeps each image under a 5 MB request limit.
+ */
+export const ANALYSIS_IMAGE_BUDGET: ImageBudget = {
+  maxBytes: 3_750_000,
+  maxPixels: 1_150_000,
+  maxDimension: 1568,
+};
+
+/**
+ * Budget for images embedded in the HTML report: full resolution, but no
+ * single image heavier than 2 MB.
+ */
+export const REPORT_IMAGE_BUDGET: ImageBudget = {
+  maxBytes: 2_000_000,
+};
+
+/**
+ * Options for {@link prepareImage}.
+ */
+export interface PrepareImageOptions {
+  /** Limits to fit (default: none, so the image is only identified) */
+  budget?: ImageBudget;
+  /** Crop to the area around these regions, e.g. a screenshot's annotations */
+  crop?: ScreenshotRegion[];
+  /** Size of the image in CSS pixels, to map `crop` regions onto its pixels */
+  cssSize?: { width: number; height: number };
+}
+
+/**
+ * An image ready to send or embed, with what was done to it.
+ */
+export interface PreparedImage {
+  data: Buffer;
+  format: ImageFormat;
+  mediaType: string;
+  width: number;
+  height: number;
+  /** The image as it was read */
+  original: { bytes: number; width: number; height: number; format: ImageFormat };
+  /** Area of the original that was kept, in its pixels, when cropped */
+  crop?: ScreenshotRegion;
+}
+
+interface RawImage {
+  width: number;
+  height: number;
+  /** RGBA pixels */
+  data: Buffer;
+}
+
+/**
+ * JPEG qualities to try, in order, before scaling further down.
+ */
+const JPEG_QUALITIES = [85, 70, 55];
+
+/**
+ * Margin kept around crop regions, as a share of the cropped area's size.
+ */
+const CROP_MARGIN = 0.15;
+
+/**
+ * Identify an image from its first bytes.
+ *
+ * @returns The format, or undefined if the bytes are neither PNG nor JPEG
+ */
+export function detectImageFormat(buffer: Buffer): ImageFormat | undefined {
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  return undefined;
+}
+
+/**
+ * Read an image's size from its header, without decoding it.
+ */
+function readImageSize(buffer: Buffer, format: ImageFormat): { width: number; height: number } | undefined {
+  if (format === 'png') {
+    return buffer.length >= 24 ? { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) } : undefined;
+  }
+
+  // Walk the JPEG markers to the start-of-frame, which holds the size
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return undefined;
+    const marker = buffer[offset + 1] ?? 0;
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function decode(buffer: Buffer, format: ImageFormat): RawImage {
+  if (format === 'png') {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  const image = jpeg.decode(buffer, { formatAsRGBA: true });
+  return { width: image.width, height: image.height, data: image.data };
+}
+
+function encode(image: RawImage, format: ImageFormat, quality: number): Buffer {
+  if (format === 'png') {
+    const png = new PNG({ width: image.width, height: image.height });
+    image.data.copy(png.data);
+    return PNG.sync.write(png);
+  }
+
+  // JPEG has no transparency; blend onto white as browsers would show it
+  const data = Buffer.from(image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3]! / 255;
+    if (alpha < 1) {
+      for (let c = 0; c < 3; c++) data[i + c] = Math.round(data[i + c]! * alpha + 255 * (1 - alpha));
+    }
+  }
+  return jpeg.encode({ width: image.width, height: image.height, data }, quality).data;
+}
+
+/**
+ * Scale an image down by averaging the source pixels behind each target
+ * pixel, which keeps text more legible than sampling.
+ */
+function downscale(image: RawImage, width: number, height: number): RawImage {
+  if (width >= image.width && height >= image.height) return image;
+
+  const data = Buffer.alloc(width * height * 4);
+  const xRatio = image.width / width;
+  const yRatio = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * yRatio);
+    const bottom = Math.max(top + 1, Math.floor((y + 1) * yRatio));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * xRatio);
+      const right = Math.max(left + 1, Math.floor((x + 1) * xRatio));
+      const sum = [0, 0, 0, 0];
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          for (let c = 0; c < 4; c++) sum[c]! += image.data[i + c]!;
+        }
+      }
+      const count = (bottom - top) * (right - left);
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) data[o + c] = Math.round(sum[c]! / count);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * The area around the regions, with a margin, in image pixels.
+ */
+function cropArea(
+  regions: ScreenshotRegion[],
+  size: { width: number; height: number },
+  cssSize: { width: number; height: number } | undefined
+): ScreenshotRegion {
+  const scale = cssSize ? size.width / cssSize.width : 1;
+  const left = Math.min(...regions.map((r) => r.x)) * scale;
+  const top = Math.min(...regions.map((r) => r.y)) * scale;
+  const right = Math.max(...regions.map((r) => r.x + r.width)) * scale;
+  const bottom = Math.max(...regions.map((r) => r.y + r.height)) * scale;
+  const margin = Math.max(right - left, bottom - top) * CROP_MARGIN;
+
+  const x = Math.min(size.width - 1, Math.max(0, Math.floor(left - margin)));
+  const y = Math.min(size.height - 1, Math.max(0, Math.floor(top - margin)));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(size.width, Math.ceil(right + margin)) - x),
+    height: Math.max(1, Math.min(size.height, Math.ceil(bottom + margin)) - y),
+  };
+}
+
+function cropPixels(image: RawImage, area: ScreenshotRegion): RawImage {
+  const data = Buffer.alloc(area.width * area.height * 4);
+  for (let y = 0; y < area.height; y++) {
+    const start = ((area.y + y) * image.width + area.x) * 4;
+    image.data.copy(data, y * area.width * 4, start, start + area.width * 4);
+  }
+  return { width: area.width, height: area.height, data };
+}
+
+/**
+ * Identify an image and fit it to a budget: crop it if asked, scale it down
+ * to the pixel limits, then re-encode until it fits the byte limit, first as
+ * JPEG at falling quality and then at smaller sizes.
+ *
+ * Images that already fit are returned as they are, without re-encoding.
+ *
+ * @param buffer - Encoded image
+ * @param options - Budget and optional crop
+ * @returns The prepared image, or undefined if it is neither PNG nor JPEG
+ */
+export function prepareImage(buffer: Buffer, options: PrepareImageOptions = {}): PreparedImage | undefined {
+  const format = detectImageFormat(buffer);
+  if (!format) return undefined;
+
+  const { maxBytes, maxPixels, maxDimension } = options.budget ?? {};
+  const size = readImageSize(buffer, format);
+  const original = { bytes: buffer.length, width: size?.width ?? 0, height: size?.height ?? 0, format };
+  const crop = options.crop?.length && size ? cropArea(options.crop, size, options.cssSize) : undefined;
+
+  const fitScale = (width: number, height: number) =>
+    Math.min(
+      1,
+      maxDimension ? maxDimension / Math.max(width, height) : 1,
+      maxPixels ? Math.sqrt(maxPixels / (width * height)) : 1
+    );
+
+  if (size && !crop && fitScale(size.width, size.height) === 1 && (!maxBytes || buffer.length <= maxBytes)) {
+    return { data: buffer, format, mediaType: IMAGE_MEDIA_TYPES[format], ...size, original };
+  }
+
+  let image = decode(buffer, format);
+  original.width = image.width;
+  original.height = image.height;
+  if (crop) image = cropPixels(image, crop);
+
+  const scale = fitScale(image.width, image.height);
+  image = downscale(image, Math.max(1, Math.floor(image.width * scale)), Math.max(1, Math.floor(image.height * scale)));
+
+  let outputFormat = format;
+  let qualityIndex = 0;
+  let data = encode(image, outputFormat, JPEG_QUALITIES[0]!);
+  while (maxBytes && data.length > maxBytes && image.width > 16 && image.height > 16) {
+    if (outputFormat === 'png') {
+      outputFormat = 'jpeg';
+    } else if (qualityIndex < JPEG_QUALITIES.length - 1) {
+      qualityIndex++;
+    } else {
+      image = downscale(image, Math.floor(image.width * 0.75), Math.floor(image.height * 0.75));
+    }
+    data = encode(image, outputFormat, JPEG_QUALITIES[qualityIndex]!);
+  }
+
+  return {
+    data,
+    format: outputFormat,
+    mediaType: IMAGE_MEDIA_TYPES[outputFormat],
+    width: image.width,
+    height: image.height,
+    original,
+    ...(crop && { crop }),
+  };
+}
+
+/**
+ * Format a byte count for display (e.g. `380 kB`, `2.4 MB`).
+ */
+export function formatBytes(bytes: number): string {
+  return bytes >= 1_000_000 ? `${(bytes / 1_000_000).toFixed(1)} MB` : `${Math.round(bytes / 1000)} kB`;
+}
+
+/**
+ * Describe what {@link prepareImage} did to an image, e.g.
+ * `2.4 MB → 380 kB, 2560×1600 → 1254×784, PNG → JPEG`.
+ *
+ * @returns The description, or undefined if the image was left as it was
+ */
+export function formatImageReduction(image: PreparedImage): string | undefined {
+  const { original } = image;
+  if (image.data.length === original.bytes && image.width === original.width && image.height === original.height) {
+    return undefined;
+  }
+
+  return [
+    `${formatBytes(original.bytes)} → ${formatBytes(image.data.length)}`,
+    `${original.width}×${original.height} → ${image.width}×${image.height}`,
+    image.crop ? 'cropped' : '',
+    image.format !== original.format ? `${original.format.toUpperCase()} → ${image.format.toUpperCase()}` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Read a screenshot's image (see `readScreenshotImage`) and prepare it.
+ *
+ * @param screenshot - Screenshot to read; its annotations are the crop regions when `crop` is set
+ * @param resultsDir - Directory of the results file
+ * @param options - Budget, and whether to crop to the screenshot's annotations
+ * @returns The prepared image, `missing` if it can't be found, or
+ *   `unsupported` if it is neither PNG nor JPEG
+ */
+export async function readPreparedImage(
+  screenshot: Screenshot,
+  resultsDir: string,
+  options: { budget?: ImageBudget; crop?: boolean } = {}
+): Promise<PreparedImage | 'missing' | 'unsupported'> {
+  const buffer = await readScreenshotImage(screenshot, resultsDir);
+  if (!buffer) return 'missing';
+
+  return (
+    prepareImage(buffer, {
+      budget: options.budget,
+      crop: options.crop ? screenshot.annotations : undefined,
+      cssSize: screenshot.size,
+    }) ?? 'unsupported'
+  );
+}
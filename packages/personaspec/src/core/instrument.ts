@@ -0,0 +1,174 @@
+/**
+ * Name of the binding the in-page script uses to report interactions.
+ */
+export const INTERACTION_BINDING = '__personaspecTrack';
+
+/**
+ * Interactions reported by the in-page script.
+ */
+export type PageInteraction = 'click' | 'search' | 'backNav' | 'forwardNav';
+
+/**
+ * Key of the history position the in-page script stores in each history
+ * entry's state, and of the position last shown in `sessionStorage`.
+ */
+export const HISTORY_INDEX_KEY = '__personaspecHistoryIndex';
+
+/**
+ * Inputs that mark a form as a search form.
+ */
+export const SEARCH_INPUT_SELECTOR =
+  'input[type="search"], input[name="q"], input[name="search"], input[name="query"]';
+
+/**
+ * In-page helpers shared by the injected scripts:
+ * - `describeElement(element)`: a short CSS selector, e.g. `nav.main > a.pricing`
+ * - `labelElement(element)`: the element's accessible name or visible text
+ * - `searchQuery(form)`: the query of a search form, or undefined for other forms
+ */
+export const PAGE_HELPERS_SCRIPT = `
+  const selectorPart = (node) => {
+    const tag = node.tagName.toLowerCase();
+    if (node.id) return tag + '#' + CSS.escape(node.id);
+    const testId = node.getAttribute('data-testid');
+    if (testId) return tag + '[data-testid="' + testId + '"]';
+    return tag + [...node.classList].slice(0, 2).map((name) => '.' + CSS.escape(name)).join('');
+  };
+  const describeElement = (element) => {
+    const parent = element.parentElement;
+    return !element.id && parent && parent !== document.body
+      ? selectorPart(parent) + ' > ' + selectorPart(element)
+      : selectorPart(element);
+  };
+  const labelElement = (element) =>
+    (element.getAttribute('aria-label') || element.innerText || element.value || '')
+      .trim()
+      .replace(/\\s+/g, ' ')
+      .slice(0, 80);
+  const searchQuery = (form) => {
+    const input = form.querySelector('${SEARCH_INPUT_SELECTOR}');
+    if (input) return input.value;
+    if (form.getAttribute('role') !== 'search' && form.closest('[role="search"]') === null) return undefined;
+    const text = form.querySelector('input:not([type]), input[type="text"]');
+    return text ? text.value : '';
+  };
+`;
+
+/**
+ * Script injected into every document of an instrumented page.
+ *
+ * Reports trusted clicks (with the clicked element), search form
+ * submissions (with the query) and history traversals back to the
+ * collector through {@link INTERACTION_BINDING}. Written as a string so it
+ * runs unchanged in the browser without DOM typings here.
+ *
+ * To tell back from forward, each history entry's state carries its
+ * position in the tab's history (plain-object and empty states only), and
+ * the position last shown is kept in `sessionStorage`. Traversals whose
+ * direction can't be told, e.g. to an entry of another origin, count as
+ * back. A document load is reported once even if the script runs again.
+ */
+export const INTERACTION_SCRIPT = `(() => {
+  if (window.__personaspecInstrumented) return;
+  window.__personaspecInstrumented = true;
+${PAGE_HELPERS_SCRIPT}
+  const report = (kind, detail) => {
+    const binding = window['${INTERACTION_BINDING}'];
+    if (typeof binding === 'function') {
+      binding(kind, detail).catch(() => {});
+    }
+  };
+
+  document.addEventListener('click', (event) => {
+    if (!event.isTrusted) return;
+    const target = event.target instanceof Element ? event.target : undefined;
+    report('click', target && { element: describeElement(target), text: labelElement(target) });
+  }, true);
+
+  document.addEventListener('submit', (event) => {
+    const form = event.target;
+    if (!(form instanceof HTMLFormElement)) return;
+    const query = searchQuery(form);
+    if (query !== undefined) report('search', { query });
+  }, true);
+
+  const session = {
+    get: (key) => {
+      try { return sessionStorage.getItem(key); } catch { return null; }
+    },
+    set: (key, value) => {
+      try { sessionStorage.setItem(key, value); } catch {}
+    },
+  };
+  const INDEX_KEY = '${HISTORY_INDEX_KEY}';
+  const COUNTED_KEY = INDEX_KEY + 'Counted';
+  const entryIndex = (state) =>
+    state && typeof state[INDEX_KEY] === 'number' ? state[INDEX_KEY] : undefined;
+  const withIndex = (state, index) =>
+    index !== undefined && (state == null || Object.getPrototypeOf(state) === Object.prototype)
+      ? { ...state, [INDEX_KEY]: index }
+      : state;
+  const lastIndex = () => Number(session.get(INDEX_KEY)) || 0;
+  let currentIndex = entryIndex(history.state);
+  const show = (index) => {
+    currentIndex = index;
+    if (index !== undefined) session.set(INDEX_KEY, String(index));
+  };
+  const traversed = (index) => {
+    report(index !== undefined && index > lastIndex() ? 'forwardNav' : 'backNav');
+    show(index);
+  };
+
+  const { pushState, replaceState } = history;
+  history.pushState = function (state, ...rest) {
+    const index = lastIndex() + 1;
+    pushState.call(this, withIndex(state, index), ...rest);
+    show(index);
+  };
+  history.replaceState = function (state, ...rest) {
+    replaceState.call(this, withIndex(state, currentIndex), ...rest);
+  };
+
+  window.addEventListener('popstate', (event) => traversed(entryIndex(event.state)));
+  window.addEventListener('pageshow', (event) => {
+    if (event.persisted) traversed(currentIndex);
+  });
+
+  const checkTraversal = () => {
+    const entry = performance.getEntriesByType('navigation')[0];
+    if (!entry || entry.type !== 'back_forward') {
+      // A new entry goes after the one the tab showed last
+      if (currentIndex === undefined) {
+        currentIndex = lastIndex() + 1;
+        try { replaceState.call(history, withIndex(history.state, currentIndex), ''); } catch {}
+      }
+      show(currentIndex);
+      return;
+    }
+    // Count each back/forward load once, even if the script is injected again
+    const loadId = String(performance.timeOrigin);
+    if (session.get(COUNTED_KEY) === loadId) {
+      show(currentIndex);
+      return;
+    }
+    session.set(COUNTED_KEY, loadId);
+    traversed(currentIndex);
+  };
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', checkTraversal, { once: true });
+  } else {
+    checkTraversal();
+  }
+})();`;
+
+/**
+ * Details the in-page script sends with an interaction.
+ */
+export interface InteractionDetail {
+  /** CSS selector of the clicked element */
+  element?: string;
+  /** Accessible name or visible text of the clicked element */
+  text?: string;
+  /** Submitted search query */
+  query?: string;
+}
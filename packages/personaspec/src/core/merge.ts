@@ -0,0 +1,268 @@
+import { createIdAllocator } from './ids.js';
+import { RESULTS_SCHEMA_VERSION } from './results.js';
+import type { PersonaTestResults, SessionMetrics, TestRun } from './types.js';
+
+/**
+ * Sort entries by timestamp, keeping the original order for ties and
+ * placing entries without a timestamp last.
+ */
+function byTimestamp<T extends { timestamp?: string }>(entries: T[]): T[] {
+  const time = (entry: T) => {
+    const parsed = entry.timestamp ? Date.parse(entry.timestamp) : NaN;
+    return Number.isNaN(parsed) ? Infinity : parsed;
+  };
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => time(a.entry) - time(b.entry) || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Make record IDs unique across parts, renaming clashes and the references
+ * to them within the same part.
+ */
+function withUniqueIds(parts: PersonaTestResults[]): PersonaTestResults[] {
+  const allocateId = createIdAllocator();
+
+  return parts.map((part) => {
+    const renamed = new Map<string, string>();
+    const rename = <T extends { id: string }>(record: T): T => {
+      const id = allocateId(record.id);
+      if (id !== record.id) renamed.set(record.id, id);
+      return id === record.id ? record : { ...record, id };
+    };
+
+    const tasks = part.tasks.map(rename);
+    const screenshots = part.screenshots.map(rename);
+    const observations = part.observations.map(rename);
+    const tests = part.tests?.map(rename);
+    if (renamed.size === 0) return part;
+
+    const ref = (id: string | undefined) => (id === undefined ? id : (renamed.get(id) ?? id));
+    return {
+      ...part,
+      tasks: tasks.map((t) => ({
+        ...t,
+        ...(t.parentId && { parentId: ref(t.parentId) }),
+        ...(t.testId && { testId: ref(t.testId) }),
+      })),
+      screenshots: screenshots.map((s) => ({
+        ...s,
+        ...(s.taskId && { taskId: ref(s.taskId) }),
+        ...(s.diffOf && { diffOf: ref(s.diffOf) }),
+        ...(s.viewportGroup && { viewportGroup: ref(s.viewportGroup) }),
+        ...(s.visualDiff?.diffId && { visualDiff: { ...s.visualDiff, diffId: ref(s.visualDiff.diffId) } }),
+      })),
+      observations: observations.map((o) => ({
+        ...o,
+        ...(o.taskId && { taskId: ref(o.taskId) }),
+        ...(o.testId && { testId: ref(o.testId) }),
+        ...(o.screenshotIds && { screenshotIds: o.screenshotIds.map((id) => ref(id) ?? id) }),
+      })),
+      ...(tests && { tests }),
+      ...(part.session.errors && {
+        session: {
+          ...part.session,
+          errors: part.session.errors.map((e) => (e.taskId ? { ...e, taskId: ref(e.taskId) } : e)),
+        },
+      }),
+      ...(part.timeline && {
+        timeline: part.timeline.map((event) => ({
+          ...event,
+          ...(event.recordId && { recordId: ref(event.recordId) }),
+          ...(event.taskId && { taskId: ref(event.taskId) }),
+        })),
+      }),
+      ...(part.accessibility && {
+        accessibility: part.accessibility.map((audit) => ({
+          ...audit,
+          violations: audit.violations.map((v) =>
+            v.observationId ? { ...v, observationId: ref(v.observationId) } : v
+          ),
+        })),
+      }),
+    };
+  });
+}
+
+/**
+ * Drop what earlier attempts of retried tests recorded. A part whose tests
+ * were all run again later, like a serial block retried in a new worker, is
+ * left out whole, session metrics included; from other parts only the
+ * superseded tests and the records linked to them are removed.
+ */
+function withoutRetriedAttempts(parts: PersonaTestResults[]): PersonaTestResults[] {
+  // Projects retry independently
+  const key = (part: PersonaTestResults, test: TestRun) => `${part.project ?? ''}|${test.title}`;
+  const latest = new Map<string, number>();
+  for (const part of parts) {
+    for (const test of part.tests ?? []) {
+      latest.set(key(part, test), Math.max(latest.get(key(part, test)) ?? 0, test.retry ?? 0));
+    }
+  }
+
+  return parts.flatMap((part) => {
+    const tests = part.tests ?? [];
+    const retried = new Set(
+      tests.filter((test) => (test.retry ?? 0) < latest.get(key(part, test))!).map((test) => test.id)
+    );
+    if (retried.size === 0) return [part];
+    if (retried.size === tests.length) return [];
+
+    const tasks = new Set(part.tasks.filter((t) => t.testId && retried.has(t.testId)).map((t) => t.id));
+    const observations = new Set(
+      part.observations.filter((o) => o.testId && retried.has(o.testId)).map((o) => o.id)
+    );
+    const screenshots = new Set(
+      part.screenshots.filter((s) => s.taskId && tasks.has(s.taskId)).map((s) => s.id)
+    );
+    const dropped = new Set([...tasks, ...observations, ...screenshots]);
+    return [
+      {
+        ...part,
+        tasks: part.tasks.filter((t) => !dropped.has(t.id)),
+        observations: part.observations.filter((o) => !dropped.has(o.id)),
+        screenshots: part.screenshots.filter((s) => !dropped.has(s.id)),
+        tests: tests.filter((test) => !retried.has(test.id)),
+        ...(part.timeline && {
+          timeline: part.timeline.filter(
+            (event) =>
+              !(event.taskId && dropped.has(event.taskId)) && !(event.recordId && dropped.has(event.recordId))
+          ),
+        }),
+      },
+    ];
+  });
+}
+
+/**
+ * Tag each entry with the worker that produced it, unless it already has one.
+ */
+function withWorker<T extends { worker?: string }>(entries: T[], worker: string | undefined): T[] {
+  return entries.map((entry) => (entry.worker || !worker ? entry : { ...entry, worker }));
+}
+
+function mergeSessions(sessions: SessionMetrics[]): SessionMetrics {
+  const startTimes = sessions.map((s) => s.startTime).filter(Boolean).sort();
+  const endTimes = sessions
+    .map((s) => s.endTime)
+    .filter((t): t is string => Boolean(t))
+    .sort();
+  const viewports = [...new Set(sessions.flatMap((s) => s.viewportsTested ?? []))];
+
+  const merged: SessionMetrics = {
+    startTime: startTimes[0] ?? new Date().toISOString(),
+    endTime: endTimes[endTimes.length - 1],
+    pagesVisited: 0,
+    clickCount: 0,
+    searchCount: 0,
+    backNavCount: 0,
+    consoleErrors: [],
+  };
+  let screenshotsCaptured = 0;
+
+  for (const session of sessions) {
+    merged.pagesVisited += session.pagesVisited ?? 0;
+    merged.clickCount += session.clickCount ?? 0;
+    merged.searchCount += session.searchCount ?? 0;
+    merged.backNavCount += session.backNavCount ?? 0;
+    merged.consoleErrors.push(...(session.consoleErrors ?? []));
+    screenshotsCaptured += session.screenshotsCaptured ?? 0;
+  }
+
+  merged.screenshotsCaptured = screenshotsCaptured;
+  if (viewports.length > 0) {
+    merged.viewportsTested = viewports;
+  }
+
+  return merged;
+}
+
+/**
+ * Combine partial results from parallel workers or shards into one file.
+ *
+ * Session metrics are summed; errors, page performance, observations, tasks,
+ * screenshots, timeline events and tests are concatenated in timestamp
+ * order, and every entry records the worker that produced it. Clashing
+ * record IDs get a numeric suffix. When a test was retried, only its latest
+ * attempt is kept. All parts must belong to the same persona.
+ *
+ * @example
+ * ```typescript
+ * const parts = await Promise.all(files.map(async (f) => JSON.parse(await fs.readFile(f, 'utf-8'))));
+ * const results = mergeResults(parts);
+ * ```
+ *
+ * @param parts - Partial results written by `ObservationCollector.save()`,
+ *   already upgraded with `migrateResults` if they may be older files
+ * @returns The merged results
+ */
+export function mergeResults(parts: PersonaTestResults[]): PersonaTestResults {
+  const [first] = parts;
+  if (!first) {
+    throw new Error('No results to merge');
+  }
+
+  const other = parts.find((p) => p.persona !== first.persona);
+  if (other) {
+    throw new Error(`Cannot merge results for different personas: "${first.persona}" and "${other.persona}"`);
+  }
+
+  const latestParts = withoutRetriedAttempts(parts);
+  const uniqueParts = withUniqueIds(latestParts);
+  const mergedFrom = [
+    ...new Set(latestParts.flatMap((p) => p.mergedFrom ?? (p.worker ? [p.worker] : []))),
+  ];
+
+  const merged: PersonaTestResults = {
+    schemaVersion: RESULTS_SCHEMA_VERSION,
+    persona: first.persona,
+    background: first.background,
+    goals: first.goals,
+    behaviors: first.behaviors,
+    ...(first.environment && { environment: first.environment }),
+    // Parts from different projects have no single set of baselines
+    ...(first.project && latestParts.every((p) => p.project === first.project) && { project: first.project }),
+    session: mergeSessions(latestParts.map((p) => p.session)),
+    tasks: byTimestamp(uniqueParts.flatMap((p) => withWorker(p.tasks, p.worker))),
+    observations: byTimestamp(uniqueParts.flatMap((p) => withWorker(p.observations, p.worker))),
+    screenshots: byTimestamp(uniqueParts.flatMap((p) => withWorker(p.screenshots, p.worker))),
+  };
+
+  const errors = byTimestamp(
+    uniqueParts.flatMap((p) => withWorker(p.session.errors ?? [], p.worker))
+  );
+  if (errors.length > 0) {
+    merged.session.errors = errors;
+  }
+
+  const performance = byTimestamp(
+    latestParts.flatMap((p) => withWorker(p.session.performance ?? [], p.worker))
+  );
+  if (performance.length > 0) {
+    merged.session.performance = performance;
+  }
+
+  const timeline = byTimestamp(uniqueParts.flatMap((p) => withWorker(p.timeline ?? [], p.worker)));
+  if (timeline.length > 0) {
+    merged.timeline = timeline;
+  }
+
+  const tests = uniqueParts
+    .flatMap((p) => withWorker(p.tests ?? [], p.worker))
+    .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+  if (tests.length > 0) {
+    merged.tests = tests;
+  }
+
+  const accessibility = byTimestamp(uniqueParts.flatMap((p) => p.accessibility ?? []));
+  if (accessibility.length > 0) {
+    merged.accessibility = accessibility;
+  }
+
+  if (mergedFrom.length > 0) {
+    merged.mergedFrom = mergedFrom;
+  }
+
+  return merged;
+}
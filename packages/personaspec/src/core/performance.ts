@@ -0,0 +1,281 @@
+import type { Page } from '@playwright/test';
+import type { PagePerformance, PerformanceMetric, PerformanceThresholds } from './types.js';
+
+/**
+ * Name of the binding the in-page script uses to report performance.
+ */
+export const PERFORMANCE_BINDING = '__personaspecPerformance';
+
+/**
+ * Name of the in-page function that returns the current document's snapshot.
+ */
+const SNAPSHOT_FUNCTION = '__personaspecPerformanceSnapshot';
+
+/**
+ * Performance of one document as reported by the in-page script.
+ */
+export interface PerformanceSnapshot {
+  /** Unique ID of the document */
+  id: string;
+  url: string;
+  /** Navigation start, in ms since the epoch */
+  startTime: number;
+  ttfb?: number;
+  lcp?: number;
+  cls?: number;
+  inp?: number;
+  transferSize?: number;
+}
+
+/**
+ * Script injected into every document of an instrumented page.
+ *
+ * Watches navigation and resource timing, LCP, layout shifts and event
+ * timing with `PerformanceObserver`, and reports a snapshot of the
+ * document's metrics through {@link PERFORMANCE_BINDING} shortly after each
+ * change. CLS uses the largest session window and INP the slowest
+ * interaction, as the web-vitals library does for short sessions.
+ */
+export const PERFORMANCE_SCRIPT = `(() => {
+  if (window.${SNAPSHOT_FUNCTION} || location.href === 'about:blank') return;
+
+  const metrics = {
+    id: Math.random().toString(36).slice(2) + '-' + performance.timeOrigin,
+    url: location.href,
+    startTime: performance.timeOrigin,
+  };
+  window.${SNAPSHOT_FUNCTION} = () => metrics;
+
+  let timer;
+  const report = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const binding = window['${PERFORMANCE_BINDING}'];
+    if (typeof binding === 'function') {
+      binding(metrics).catch(() => {});
+    }
+  };
+  const schedule = () => {
+    if (timer === undefined) timer = setTimeout(report, 250);
+  };
+
+  const observe = (type, onEntry, options) => {
+    if (!PerformanceObserver.supportedEntryTypes.includes(type)) return false;
+    new PerformanceObserver((list) => {
+      list.getEntries().forEach(onEntry);
+      schedule();
+    }).observe({ type, buffered: true, ...options });
+    return true;
+  };
+
+  let documentBytes = 0;
+  let resourceBytes = 0;
+  observe('navigation', (entry) => {
+    metrics.ttfb = Math.max(0, entry.responseStart - (entry.activationStart || 0));
+    documentBytes = entry.transferSize || 0;
+    metrics.transferSize = documentBytes + resourceBytes;
+  });
+  observe('resource', (entry) => {
+    resourceBytes += entry.transferSize || 0;
+    metrics.transferSize = documentBytes + resourceBytes;
+  });
+
+  observe('largest-contentful-paint', (entry) => {
+    metrics.lcp = Math.max(0, entry.startTime - (performance.getEntriesByType('navigation')[0]?.activationStart || 0));
+  });
+
+  let windowValue = 0;
+  let windowStart = 0;
+  let windowEnd = 0;
+  if (observe('layout-shift', (entry) => {
+    if (entry.hadRecentInput) return;
+    if (windowValue > 0 && entry.startTime - windowEnd < 1000 && entry.startTime - windowStart < 5000) {
+      windowValue += entry.value;
+    } else {
+      windowValue = entry.value;
+      windowStart = entry.startTime;
+    }
+    windowEnd = entry.startTime;
+    metrics.cls = Math.max(metrics.cls, windowValue);
+  })) {
+    metrics.cls = 0;
+  }
+
+  observe('event', (entry) => {
+    if (entry.interactionId) metrics.inp = Math.max(metrics.inp || 0, entry.duration);
+  }, { durationThreshold: 16 });
+
+  addEventListener('pagehide', report);
+  addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') report();
+  });
+})();`;
+
+/**
+ * Read the current document's snapshot straight from the page.
+ *
+ * @returns The snapshot, or undefined if the page isn't instrumented or is closed
+ */
+export async function readPerformanceSnapshot(page: Page): Promise<PerformanceSnapshot | undefined> {
+  return (await page
+    .evaluate(`window.${SNAPSHOT_FUNCTION}?.()`)
+    .catch(() => undefined)) as PerformanceSnapshot | undefined;
+}
+
+/**
+ * Attribute network bytes to documents, from Chrome DevTools Protocol
+ * events. Unlike Resource Timing, this includes cross-origin responses.
+ */
+export interface TransferSizeTracker {
+  /**
+   * Claim the oldest unclaimed main-frame document loaded from `url`.
+   *
+   * @returns A function that reads the document's bytes so far, or undefined
+   *   if no such document was seen
+   */
+  claim(url: string): (() => number) | undefined;
+}
+
+/**
+ * Start counting network bytes per main-frame document over CDP.
+ *
+ * @returns The tracker, or undefined if the browser doesn't support CDP
+ *   (Firefox, WebKit)
+ */
+export async function trackTransferSize(page: Page): Promise<TransferSizeTracker | undefined> {
+  let session;
+  try {
+    session = await page.context().newCDPSession(page);
+    await session.send('Network.enable');
+    await session.send('Page.enable');
+  } catch {
+    return undefined;
+  }
+
+  const loaderByRequest = new Map<string, string>();
+  const bytesByLoader = new Map<string, number>();
+  const documents: Array<{ loaderId: string; url: string; claimed: boolean }> = [];
+
+  session.on('Network.requestWillBeSent', (event) => {
+    if (event.loaderId) loaderByRequest.set(event.requestId, event.loaderId);
+  });
+  session.on('Network.loadingFinished', (event) => {
+    const loaderId = loaderByRequest.get(event.requestId);
+    if (loaderId === undefined) return;
+    loaderByRequest.delete(event.requestId);
+    bytesByLoader.set(loaderId, (bytesByLoader.get(loaderId) ?? 0) + event.encodedDataLength);
+  });
+  session.on('Page.frameNavigated', (event) => {
+    if (!event.frame.parentId) {
+      documents.push({ loaderId: event.frame.loaderId, url: event.frame.url, claimed: false });
+    }
+  });
+
+  const withoutHash = (url: string) => url.split('#')[0];
+
+  return {
+    claim(url) {
+      const document = documents.find((d) => !d.claimed && withoutHash(d.url) === withoutHash(url));
+      if (!document) return undefined;
+      document.claimed = true;
+      return () => bytesByLoader.get(document.loaderId) ?? 0;
+    },
+  };
+}
+
+/**
+ * Limits above which a page load raises a frustration observation by
+ * default: the "poor" thresholds of the Core Web Vitals.
+ */
+export const DEFAULT_PERFORMANCE_THRESHOLDS: PerformanceThresholds = {
+  lcp: 4000,
+  cls: 0.25,
+  inp: 500,
+  ttfb: 1800,
+};
+
+/**
+ * Display names, "good" limits and advice for each metric.
+ */
+const METRIC_INFO: Record<PerformanceMetric, { label: string; good?: number; recommendation: string }> = {
+  lcp: {
+    label: 'Largest Contentful Paint',
+    good: 2500,
+    recommendation:
+      'Render the main content sooner: optimise and preload the hero image and cut render-blocking CSS and JavaScript',
+  },
+  cls: {
+    label: 'Cumulative Layout Shift',
+    good: 0.1,
+    recommendation: 'Reserve space for images, embeds and late-loading content so the layout does not jump',
+  },
+  inp: {
+    label: 'Interaction to Next Paint',
+    good: 200,
+    recommendation: 'Break up long JavaScript tasks so the page responds to input quickly',
+  },
+  ttfb: {
+    label: 'Time to First Byte',
+    good: 800,
+    recommendation: 'Speed up the server response with caching or a CDN',
+  },
+  transferSize: {
+    label: 'Page weight',
+    recommendation: 'Reduce page weight: compress images, split bundles and drop unused code',
+  },
+};
+
+/**
+ * Format a metric value for display (e.g. `2.4 s`, `0.12`, `1.3 MB`).
+ */
+export function formatPerformanceValue(metric: PerformanceMetric, value: number): string {
+  if (metric === 'cls') {
+    return value.toFixed(2);
+  }
+  if (metric === 'transferSize') {
+    if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)} MB`;
+    return `${Math.round(value / 1000)} kB`;
+  }
+  return value >= 1000 ? `${(value / 1000).toFixed(1)} s` : `${Math.round(value)} ms`;
+}
+
+/**
+ * Rate a value against the Core Web Vitals limits.
+ *
+ * @returns 'good', 'needs-improvement' or 'poor', or undefined for metrics
+ *   without published limits (page weight)
+ */
+export function ratePerformance(
+  metric: PerformanceMetric,
+  value: number
+): 'good' | 'needs-improvement' | 'poor' | undefined {
+  const good = METRIC_INFO[metric].good;
+  const poor = DEFAULT_PERFORMANCE_THRESHOLDS[metric];
+  if (good === undefined || poor === undefined) return undefined;
+  return value <= good ? 'good' : value <= poor ? 'needs-improvement' : 'poor';
+}
+
+/**
+ * Find the metrics of a page load that exceed the thresholds.
+ *
+ * @returns One description and recommendation per exceeded threshold
+ */
+export function exceededThresholds(
+  performance: PagePerformance,
+  thresholds: PerformanceThresholds
+): Array<{ metric: PerformanceMetric; description: string; recommendation: string }> {
+  return (Object.keys(METRIC_INFO) as PerformanceMetric[]).flatMap((metric) => {
+    const value = performance[metric];
+    const limit = thresholds[metric];
+    if (value === undefined || limit === undefined || value <= limit) return [];
+
+    const { label, recommendation } = METRIC_INFO[metric];
+    return [
+      {
+        metric,
+        description: `${label} was ${formatPerformanceValue(metric, value)} (limit ${formatPerformanceValue(metric, limit)})`,
+        recommendation,
+      },
+    ];
+  });
+}
@@ -0,0 +1,148 @@
+import * as fs from 'node:fs/promises';
+import { isMap, isScalar, LineCounter, parseDocument, type Node, type Pair } from 'yaml';
+import { definePersona, validatePersona } from './helpers.js';
+import type { PersonaDefinition } from './types.js';
+
+/**
+ * Fields allowed at the top level of a persona file.
+ */
+const PERSONA_FILE_FIELDS = [
+  'name',
+  'role',
+  'background',
+  'goals',
+  'behaviors',
+  'environment',
+  'frustrationDetectors',
+];
+
+/**
+ * A problem found in a persona file.
+ */
+export interface PersonaFileIssue {
+  /** 1-based line the problem was found on, when known */
+  line?: number;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Result of parsing a persona file.
+ */
+export interface PersonaFileResult {
+  /** The persona, if the file is valid */
+  persona?: PersonaDefinition;
+  /** Every problem found (empty if valid) */
+  issues: PersonaFileIssue[];
+}
+
+/**
+ * Format a persona file issue as `file:line: message`.
+ */
+export function formatPersonaFileIssue(filename: string, issue: PersonaFileIssue): string {
+  return issue.line ? `${filename}:${issue.line}: ${issue.message}` : `${filename}: ${issue.message}`;
+}
+
+/**
+ * Parse and validate a persona written in YAML or JSON.
+ *
+ * Applies the same rules as `definePersona`, plus a check for unknown
+ * fields, and reports every problem with the line it was found on.
+ *
+ * @param source - File contents (YAML or JSON)
+ * @returns The persona when valid, and any issues found
+ */
+export function parsePersona(source: string): PersonaFileResult {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+  const lineAt = (offset: number | undefined) =>
+    offset === undefined ? undefined : lineCounter.linePos(offset).line;
+
+  if (doc.errors.length > 0) {
+    return {
+      issues: doc.errors.map((error) => ({
+        line: error.linePos?.[0].line ?? lineAt(error.pos[0]),
+        message: error.message.split('\n')[0] ?? error.message,
+      })),
+    };
+  }
+
+  const root = doc.contents;
+  if (!isMap(root)) {
+    return {
+      issues: [
+        {
+          line: lineAt(root?.range?.[0]) ?? 1,
+          message: 'Persona file must contain a mapping of persona fields',
+        },
+      ],
+    };
+  }
+
+  const pairs = new Map<string, Pair>();
+  const issues: PersonaFileIssue[] = [];
+
+  for (const pair of root.items) {
+    const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+    pairs.set(key, pair);
+    if (!PERSONA_FILE_FIELDS.includes(key)) {
+      const range = isScalar(pair.key) ? pair.key.range : undefined;
+      issues.push({ line: lineAt(range?.[0]), message: `Unknown persona field "${key}"` });
+    }
+  }
+
+  const data = root.toJSON() as Record<string, unknown>;
+  const rootLine = lineAt(root.range[0]) ?? 1;
+
+  for (const issue of validatePersona(data)) {
+    const pair = pairs.get(issue.field);
+    let node = (pair?.value ?? pair?.key) as Node | undefined;
+    let line = lineAt(node?.range?.[0]);
+    // Point nested problems at the key they are about
+    for (const key of issue.path ?? []) {
+      const nested = isMap(node)
+        ? node.items.find((item) => isScalar(item.key) && String(item.key.value) === key)
+        : undefined;
+      if (!nested) break;
+      line = lineAt((nested.key as Node).range?.[0]) ?? line;
+      node = nested.value as Node;
+    }
+    issues.push({ line: line ?? rootLine, message: issue.message });
+  }
+
+  if (issues.length > 0) {
+    return { issues: issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0)) };
+  }
+
+  return {
+    persona: definePersona(data as Parameters<typeof definePersona>[0]),
+    issues,
+  };
+}
+
+/**
+ * Load a persona from a YAML or JSON file.
+ *
+ * @example
+ * ```typescript
+ * const persona = await loadPersona('personas/dana.yaml');
+ * ```
+ *
+ * @param filepath - Path to a `.yaml`, `.yml` or `.json` persona file
+ * @returns The validated persona
+ * @throws If the file can't be read or the persona is invalid, listing every
+ *   problem as `file:line: message`
+ */
+export async function loadPersona(filepath: string): Promise<PersonaDefinition> {
+  const source = await fs.readFile(filepath, 'utf-8');
+  const { persona, issues } = parsePersona(source);
+
+  if (!persona) {
+    throw new Error(
+      `Invalid persona file ${filepath}:\n` +
+        issues.map((issue) => `  ${formatPersonaFileIssue(filepath, issue)}`).join('\n')
+    );
+  }
+
+  return persona;
+}
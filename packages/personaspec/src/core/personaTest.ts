@@ -0,0 +1,203 @@
+import { test as base } from '@playwright/test';
+import { applyEnvironmentThrottling, environmentContextOptions } from './environment.js';
+import { ObservationCollector } from './ObservationCollector.js';
+import type { PersonaDefinition, VisualBaselineOptions } from './types.js';
+
+/**
+ * Worker-scoped options, set in the Playwright config or with a top-level
+ * `personaTest.use()`.
+ */
+export interface PersonaTestOptions {
+  /** Directory to save results and screenshots (default: './test-results') */
+  personaOutputDir: string;
+  /** Compare screenshots with stored baselines (default: false), see `CollectorConfig.visualBaseline` */
+  visualBaseline: VisualBaselineOptions | boolean;
+}
+
+/**
+ * Test-scoped options that can be set with `personaTest.use()`, including
+ * inside a describe block.
+ */
+export interface PersonaTestPageOptions {
+  /** The persona being tested. Required before the `collector` fixture is used. */
+  persona: PersonaDefinition | undefined;
+  /** Whether to instrument each page so metrics are tracked automatically (default: true) */
+  instrumentPages: boolean;
+}
+
+/**
+ * Worker-scoped fixtures shared by every test in the worker.
+ */
+export interface PersonaWorkerFixtures extends PersonaTestOptions {
+  /** Collectors created in this worker by persona name, saved when the worker finishes */
+  personaCollectors: Map<string, ObservationCollector>;
+}
+
+/**
+ * Test-scoped fixtures that run automatically for every persona test.
+ */
+export interface PersonaTestFixtures extends PersonaTestPageOptions {
+  /** Collector for the current persona, shared by every test for the same persona */
+  collector: ObservationCollector;
+  /** Attaches listeners and instrumentation to the test's page */
+  collectorListeners: void;
+}
+
+/**
+ * Playwright `test` extended with a `collector` fixture.
+ *
+ * The collector is created once per persona in each worker, hooked up to
+ * each test's page so console errors, uncaught page errors, failed requests
+ * and interactions are recorded automatically, and saved when the worker
+ * finishes. Each test's trace and video (per your Playwright config) are
+ * saved with the results and linked to its tasks and observations. The
+ * persona's `environment` (device, viewport, zoom, locale, throttling and so
+ * on) is applied to each test's browser context, on top of the project's
+ * settings; `test.use()` inside the block still wins.
+ * Each worker saves a partial file to `<personaOutputDir>/partials/`;
+ * combine them with `personaspec merge`, which also drops the records of
+ * attempts that were retried.
+ *
+ * @example
+ * ```typescript
+ * import { personaTest as test, describePersona, personaTemplates } from 'personaspec';
+ *
+ * const persona = personaTemplates.firstTimeVisitor();
+ *
+ * describePersona(persona, () => {
+ *   test('understand site purpose', async ({ page, collector }) => {
+ *     collector.startTask();
+ *     await page.goto('/');
+ *     await collector.screenshot(page, 'homepage', 'First view of the site');
+ *     collector.recordTask('understand site purpose', true, 'Headline was clear');
+ *   });
+ * });
+ * ```
+ */
+export const personaTest = base.extend<PersonaTestFixtures, PersonaWorkerFixtures>({
+  personaOutputDir: ['./test-results', { option: true, scope: 'worker' }],
+  visualBaseline: [false, { option: true, scope: 'worker' }],
+
+  persona: [undefined, { option: true }],
+  instrumentPages: [true, { option: true }],
+
+  // Context options from the persona's environment
+  viewport: async ({ viewport, persona }, use) => {
+    const options = environmentContextOptions(persona?.environment, { viewport });
+    await use(options.viewport !== undefined ? options.viewport : viewport);
+  },
+  deviceScaleFactor: async ({ deviceScaleFactor, persona }, use) => {
+    const options = environmentContextOptions(persona?.environment, { deviceScaleFactor });
+    await use(options.deviceScaleFactor ?? deviceScaleFactor);
+  },
+  isMobile: async ({ isMobile, persona, browserName }, use) => {
+    await use(environmentContextOptions(persona?.environment, {}, browserName).isMobile ?? isMobile);
+  },
+  hasTouch: async ({ hasTouch, persona }, use) => {
+    await use(environmentContextOptions(persona?.environment).hasTouch ?? hasTouch);
+  },
+  userAgent: async ({ userAgent, persona }, use) => {
+    await use(environmentContextOptions(persona?.environment).userAgent ?? userAgent);
+  },
+  locale: async ({ locale, persona }, use) => {
+    await use(environmentContextOptions(persona?.environment).locale ?? locale);
+  },
+  timezoneId: async ({ timezoneId, persona }, use) => {
+    await use(environmentContextOptions(persona?.environment).timezoneId ?? timezoneId);
+  },
+  colorScheme: async ({ colorScheme, persona }, use) => {
+    await use(environmentContextOptions(persona?.environment).colorScheme ?? colorScheme);
+  },
+  offline: async ({ offline, persona }, use) => {
+    await use(environmentContextOptions(persona?.environment).offline ?? offline);
+  },
+  // Playwright has no fixture for a device's screen size, so it goes in with reducedMotion
+  contextOptions: async ({ contextOptions, persona }, use) => {
+    const { reducedMotion, screen } = environmentContextOptions(persona?.environment);
+    await use({
+      ...contextOptions,
+      ...(screen && { screen }),
+      ...(reducedMotion && { reducedMotion }),
+    });
+  },
+
+  personaCollectors: [
+    async ({}, use) => {
+      const collectors = new Map<string, ObservationCollector>();
+      await use(collectors);
+
+      for (const collector of collectors.values()) {
+        const filepath = await collector.save();
+        console.log(`Observations saved to: ${filepath}`);
+      }
+    },
+    { scope: 'worker' },
+  ],
+
+  collector: async ({ persona, personaCollectors, personaOutputDir, visualBaseline }, use, testInfo) => {
+    if (!persona) {
+      throw new Error(
+        'No persona configured. Call personaTest.use({ persona }) or wrap your tests in describePersona().'
+      );
+    }
+
+    let collector = personaCollectors.get(persona.name);
+    if (!collector) {
+      // Every worker writes a partial file for `personaspec merge`: a worker
+      // can't tell whether others run beside it, and each retry gets a new one
+      const { shard } = testInfo.config;
+      const workerId = [shard ? `shard${shard.current}` : '', `worker${testInfo.workerIndex}`]
+        .filter(Boolean)
+        .join('-');
+
+      collector = new ObservationCollector({
+        outputDir: personaOutputDir,
+        persona,
+        workerId,
+        // Each worker runs a single project; unnamed projects share baselines
+        project: testInfo.project.name || undefined,
+        visualBaseline,
+      });
+      personaCollectors.set(persona.name, collector);
+    }
+    await use(collector);
+  },
+
+  collectorListeners: [
+    async ({ page, collector, instrumentPages }, use, testInfo) => {
+      collector.beginTest(testInfo);
+      collector.watchErrors(page);
+      await applyEnvironmentThrottling(page, collector.getPersona().environment);
+
+      if (instrumentPages) {
+        await collector.instrument(page);
+      }
+
+      await use();
+
+      // Pick up metrics the page hasn't reported yet before it closes
+      if (instrumentPages) {
+        await collector.measurePerformance(page);
+      }
+      collector.endTest();
+    },
+    { auto: true },
+  ],
+});
+
+/**
+ * Declare a serial describe block for a persona.
+ *
+ * Configures `personaTest` with the persona, forces serial mode so the tests
+ * play out as one user session, and titles the block `"<name> - <role>"`.
+ *
+ * @param persona - The persona being tested
+ * @param callback - Declares the persona's tests
+ */
+export function describePersona(persona: PersonaDefinition, callback: () => void): void {
+  personaTest.describe(`${persona.name} - ${persona.role}`, () => {
+    personaTest.describe.configure({ mode: 'serial' });
+    personaTest.use({ persona });
+    callback();
+  });
+}
@@ -0,0 +1,224 @@
+import * as fs from 'node:fs/promises';
+import Ajv, { type ErrorObject } from 'ajv';
+import schema from '../../schema/persona-test-results.schema.json' with { type: 'json' };
+import { createIdAllocator, recordIds } from './ids.js';
+import type { PersonaTestResults } from './types.js';
+
+/**
+ * Current version of the results file format. Bump this and add a migration
+ * whenever a change to `PersonaTestResults` would make older files invalid.
+ */
+export const RESULTS_SCHEMA_VERSION = 2;
+
+/**
+ * A single schema violation in a results file.
+ */
+export interface ResultsValidationIssue {
+  /** JSON path to the offending value (e.g. `$.observations[2].timestamp`) */
+  path: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Thrown by `readResults` when a file doesn't match the results schema.
+ */
+export class ResultsValidationError extends Error {
+  constructor(
+    readonly filepath: string,
+    readonly issues: ResultsValidationIssue[]
+  ) {
+    super(`Invalid PersonaSpec results file: ${filepath} (${issues.length} problem(s))`);
+    this.name = 'ResultsValidationError';
+  }
+}
+
+/**
+ * A JSON object of a results file that hasn't been validated yet.
+ */
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The objects in an array, skipping anything else; validation reports
+ * whatever the migrations can't fix.
+ */
+function records(value: unknown): RawRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * Upgrades from each version to the next, keyed by the version they start from.
+ * Files without a `schemaVersion` are treated as version 0.
+ */
+const MIGRATIONS: Record<number, (results: RawRecord) => void> = {
+  // 0 -> 1: fill in fields that hand-written and pre-versioning files often lack
+  0: (results) => {
+    results.goals ??= [];
+    results.behaviors ??= [];
+    results.tasks ??= [];
+    results.observations ??= [];
+    results.screenshots ??= [];
+    results.session ??= {};
+
+    const session = isRecord(results.session) ? results.session : {};
+    session.pagesVisited ??= 0;
+    session.clickCount ??= 0;
+    session.searchCount ??= 0;
+    session.backNavCount ??= 0;
+    session.consoleErrors ??= [];
+
+    for (const task of records(results.tasks)) {
+      task.notes ??= '';
+    }
+    if (session.startTime !== undefined) {
+      for (const observation of records(results.observations)) {
+        observation.timestamp ??= session.startTime;
+      }
+    }
+    for (const screenshot of records(results.screenshots)) {
+      screenshot.base64 ??= '';
+    }
+
+    if (isRecord(results.summary)) {
+      results.summary.strengths ??= [];
+      results.summary.areasForImprovement ??= [];
+      results.summary.criticalIssues ??= 0;
+      results.summary.moderateIssues ??= 0;
+      results.summary.minorIssues ??= 0;
+    }
+  },
+
+  // 1 -> 2: give every task, screenshot and observation a stable ID
+  1: (results) => {
+    const allocateId = createIdAllocator();
+    for (const task of records(results.tasks)) {
+      task.id ??= allocateId(recordIds.task(String(task.name)));
+    }
+    for (const screenshot of records(results.screenshots)) {
+      screenshot.id ??= allocateId(recordIds.screenshot(String(screenshot.name)));
+    }
+    for (const observation of records(results.observations)) {
+      observation.id ??= allocateId(
+        recordIds.observation({
+          type: String(observation.type),
+          location: String(observation.location),
+          description: String(observation.description),
+        })
+      );
+    }
+  },
+};
+
+/**
+ * Upgrade a results object written by an older version of PersonaSpec.
+ *
+ * Runs each migration from the file's `schemaVersion` up to
+ * {@link RESULTS_SCHEMA_VERSION}. The input is not modified.
+ *
+ * @param raw - Parsed contents of a results file
+ * @returns The upgraded results (not yet validated)
+ * @throws If the file was written by a newer version of PersonaSpec
+ */
+export function migrateResults(raw: unknown): unknown {
+  if (!isRecord(raw)) {
+    return raw;
+  }
+
+  const results = structuredClone(raw);
+  let version = typeof results.schemaVersion === 'number' ? results.schemaVersion : 0;
+
+  if (version > RESULTS_SCHEMA_VERSION) {
+    throw new Error(
+      `Results file uses schema version ${version}, but this version of PersonaSpec only supports up to ${RESULTS_SCHEMA_VERSION}. Upgrade personaspec.`
+    );
+  }
+
+  while (version < RESULTS_SCHEMA_VERSION) {
+    MIGRATIONS[version]?.(results);
+    version++;
+  }
+  results.schemaVersion = version;
+
+  return results;
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateSchema = ajv.compile(schema);
+
+/**
+ * Convert an Ajv instance path (`/observations/2/timestamp`) to a JSON path
+ * (`$.observations[2].timestamp`).
+ */
+function toJsonPath(instancePath: string, property?: string): string {
+  const segments = instancePath.split('/').slice(1);
+  if (property !== undefined) segments.push(property);
+
+  return segments.reduce(
+    (jsonPath, segment) =>
+      /^\d+$/.test(segment) ? `${jsonPath}[${segment}]` : `${jsonPath}.${segment.replace(/~1/g, '/').replace(/~0/g, '~')}`,
+    '$'
+  );
+}
+
+function toIssue(error: ErrorObject): ResultsValidationIssue {
+  if (error.keyword === 'required') {
+    const property = (error.params as { missingProperty: string }).missingProperty;
+    return { path: toJsonPath(error.instancePath, property), message: 'is required' };
+  }
+  if (error.keyword === 'enum') {
+    const allowed = (error.params as { allowedValues: unknown[] }).allowedValues;
+    return {
+      path: toJsonPath(error.instancePath),
+      message: `must be one of: ${allowed.map((v) => JSON.stringify(v)).join(', ')}`,
+    };
+  }
+  return { path: toJsonPath(error.instancePath), message: error.message ?? 'is invalid' };
+}
+
+/**
+ * Check a results object against the published JSON Schema.
+ *
+ * @param data - Results to check (migrate first with `migrateResults`)
+ * @returns Every violation with its JSON path (empty if valid)
+ */
+export function validateResults(data: unknown): ResultsValidationIssue[] {
+  return validateSchema(data) ? [] : toValidationIssues(validateSchema.errors);
+}
+
+/**
+ * Turn Ajv errors into validation issues with JSON paths, each listed once.
+ */
+export function toValidationIssues(errors: ErrorObject[] | null | undefined): ResultsValidationIssue[] {
+  // Unions report one error per branch; keep each path/message once
+  const seen = new Set<string>();
+  return (errors ?? []).map(toIssue).filter((issue) => {
+    const key = `${issue.path} ${issue.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Read a results file, upgrading it to the current format and validating it.
+ *
+ * @param filepath - Path to a results JSON file
+ * @returns The validated results
+ * @throws The underlying error if the file can't be read, a `SyntaxError` for
+ *   invalid JSON, or a {@link ResultsValidationError} listing every violation
+ */
+export async function readResults(filepath: string): Promise<PersonaTestResults> {
+  const content = await fs.readFile(filepath, 'utf-8');
+  const results = migrateResults(JSON.parse(content));
+
+  const issues = validateResults(results);
+  if (issues.length > 0) {
+    throw new ResultsValidationError(filepath, issues);
+  }
+
+  return results as PersonaTestResults;
+}
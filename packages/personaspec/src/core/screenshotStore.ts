@@ -0,0 +1,127 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { PersonaTestResults, Screenshot } from './types.js';
+
+/**
+ * Directory, relative to the collector's output directory, that holds
+ * content-addressed screenshots.
+ */
+export const SCREENSHOT_STORE_DIR = path.join('screenshots', 'store');
+
+/**
+ * Write an image to the content-addressed store, keyed by its SHA-256 hash.
+ * Identical images are only written once.
+ *
+ * @param storeDir - Directory of the store
+ * @param buffer - Image bytes
+ * @param extension - File extension (e.g. 'png')
+ * @returns The image hash and the path it is stored at
+ */
+export async function storeImage(
+  storeDir: string,
+  buffer: Buffer,
+  extension: string
+): Promise<{ hash: string; filepath: string }> {
+  const hash = createHash('sha256').update(buffer).digest('hex');
+  const filepath = path.join(storeDir, `${hash}.${extension}`);
+
+  await fs.mkdir(storeDir, { recursive: true });
+  try {
+    await fs.writeFile(filepath, buffer, { flag: 'wx' });
+  } catch (error) {
+    // Already stored by an earlier identical capture
+    if (!(error instanceof Error && 'code' in error && error.code === 'EEXIST')) {
+      throw error;
+    }
+  }
+
+  return { hash, filepath };
+}
+
+/**
+ * Read a screenshot's image bytes, wherever they live.
+ *
+ * Prefers inline base64, then the store reference, then the original file.
+ *
+ * @param screenshot - Screenshot record from a results file
+ * @param resultsDir - Directory of the results file the record came from
+ * @returns The image bytes, or undefined if the image can't be found
+ */
+export async function readScreenshotImage(
+  screenshot: Screenshot,
+  resultsDir: string
+): Promise<Buffer | undefined> {
+  if (screenshot.base64) {
+    return Buffer.from(screenshot.base64, 'base64');
+  }
+
+  const candidates = [
+    screenshot.ref && path.resolve(resultsDir, screenshot.ref),
+    screenshot.filepath && path.resolve(screenshot.filepath),
+    screenshot.filepath && path.resolve(resultsDir, screenshot.filepath),
+  ].filter((candidate): candidate is string => Boolean(candidate));
+
+  for (const candidate of candidates) {
+    try {
+      return await fs.readFile(candidate);
+    } catch {
+      // Try the next location
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Rewrite store references so they stay valid when a results file is written
+ * to a different directory.
+ *
+ * @param results - Results whose references are relative to `fromDir`
+ * @param fromDir - Directory the results file was read from
+ * @param toDir - Directory the results file will be written to
+ * @returns A copy of the results with rebased references
+ */
+export function rebaseScreenshotRefs(
+  results: PersonaTestResults,
+  fromDir: string,
+  toDir: string
+): PersonaTestResults {
+  return {
+    ...results,
+    screenshots: results.screenshots.map((screenshot) =>
+      screenshot.ref
+        ? { ...screenshot, ref: path.relative(toDir, path.resolve(fromDir, screenshot.ref)) }
+        : screenshot
+    ),
+  };
+}
+
+/**
+ * Inline every screenshot as base64 so the results file is self-contained.
+ *
+ * @param results - Results that may reference images on disk
+ * @param resultsDir - Directory of the results file
+ * @returns A copy of the results with inline images and no store references,
+ *   plus the names of screenshots whose images couldn't be found
+ */
+export async function packResults(
+  results: PersonaTestResults,
+  resultsDir: string
+): Promise<{ results: PersonaTestResults; missing: string[] }> {
+  const missing: string[] = [];
+
+  const screenshots = await Promise.all(
+    results.screenshots.map(async (screenshot) => {
+      const image = await readScreenshotImage(screenshot, resultsDir);
+      if (!image) {
+        missing.push(screenshot.name);
+        return screenshot;
+      }
+      const { ref: _ref, ...rest } = screenshot;
+      return { ...rest, base64: image.toString('base64') };
+    })
+  );
+
+  return { results: { ...results, screenshots }, missing };
+}
@@ -0,0 +1,444 @@
+import { PAGE_HELPERS_SCRIPT } from './instrument.js';
+import type {
+  FrustrationDetectorOptions,
+  FrustrationSignal,
+  ObservationSeverity,
+  ObservationType,
+  SignalEvidence,
+} from './types.js';
+
+/**
+ * Name of the binding the in-page script uses to report signals.
+ */
+export const SIGNAL_BINDING = '__personaspecSignal';
+
+/**
+ * Settings the detectors use when a persona doesn't override them.
+ */
+export const DEFAULT_FRUSTRATION_DETECTORS = {
+  rageClick: { clicks: 3, withinMs: 1000, radiusPx: 30 },
+  deadClick: { waitMs: 1000 },
+  thrashing: { navigations: 3, withinMs: 10_000 },
+  idle: { afterMs: 15_000 },
+  repeatedSearch: { times: 2 },
+};
+
+/**
+ * Detector settings with every default filled in; `false` for detectors
+ * that are off.
+ */
+export type ResolvedFrustrationDetectors = {
+  [K in FrustrationSignal]: (typeof DEFAULT_FRUSTRATION_DETECTORS)[K] | false;
+};
+
+/**
+ * Fill in defaults for a persona's detector settings.
+ *
+ * @param options - The persona's `frustrationDetectors`
+ */
+export function resolveFrustrationDetectors(
+  options: FrustrationDetectorOptions | false | undefined
+): ResolvedFrustrationDetectors {
+  const signals = Object.keys(DEFAULT_FRUSTRATION_DETECTORS) as FrustrationSignal[];
+  return Object.fromEntries(
+    signals.map((signal) => {
+      const setting = options === false ? false : options?.[signal];
+      return [signal, setting === false ? false : { ...DEFAULT_FRUSTRATION_DETECTORS[signal], ...setting }];
+    })
+  ) as ResolvedFrustrationDetectors;
+}
+
+/**
+ * Display names for each signal.
+ */
+export const SIGNAL_LABELS: Record<FrustrationSignal, string> = {
+  rageClick: 'Rage click',
+  deadClick: 'Dead click',
+  thrashing: 'Back/forward thrashing',
+  idle: 'Long idle',
+  repeatedSearch: 'Repeated search',
+};
+
+/**
+ * Events reported by the in-page script.
+ */
+export type PageSignal =
+  | {
+      kind: 'rageClick';
+      /** Same for every report from one burst */
+      burst: string;
+      count: number;
+      durationMs: number;
+      element: string;
+      text: string;
+      x: number;
+      y: number;
+      url: string;
+    }
+  | { kind: 'deadClick'; element: string; text: string; x: number; y: number; url: string }
+  | { kind: 'search'; query: string; url: string }
+  | { kind: 'activity'; url: string };
+
+/**
+ * Build the script injected into every document of an instrumented page.
+ *
+ * Reports rage clicks, dead clicks, search queries and (at most once a
+ * second) trusted input through {@link SIGNAL_BINDING}. A click counts as
+ * dead when, within the wait, nothing in the DOM changes, the page doesn't
+ * navigate, scroll or move focus. Clicks on form fields and real links are
+ * never dead, and each element is reported once per document.
+ *
+ * @param detectors - Resolved settings; the click detectors are inlined
+ */
+export function signalScript(detectors: ResolvedFrustrationDetectors): string {
+  const config = JSON.stringify({ rageClick: detectors.rageClick, deadClick: detectors.deadClick });
+
+  return `(() => {
+  if (window.__personaspecSignals) return;
+  window.__personaspecSignals = true;
+
+  const config = ${config};${PAGE_HELPERS_SCRIPT}
+  const report = (signal) => {
+    const binding = window['${SIGNAL_BINDING}'];
+    if (typeof binding === 'function') {
+      binding(signal).catch(() => {});
+    }
+  };
+
+  let lastActivity = 0;
+  const activity = (event) => {
+    if (!event.isTrusted || Date.now() - lastActivity < 1000) return;
+    lastActivity = Date.now();
+    report({ kind: 'activity', url: location.href });
+  };
+  for (const type of ['pointerdown', 'keydown', 'input', 'wheel']) {
+    addEventListener(type, activity, { capture: true, passive: true });
+  }
+
+  let recentClicks = [];
+  let burst;
+  const checkRageClick = (event, target) => {
+    const { clicks, withinMs, radiusPx } = config.rageClick;
+    const now = Date.now();
+    const near = (click) => Math.hypot(event.clientX - click.x, event.clientY - click.y) <= radiusPx;
+
+    if (burst && now - burst.last <= withinMs && near(burst)) {
+      burst.count++;
+      burst.last = now;
+    } else {
+      recentClicks = recentClicks.filter((click) => now - click.time <= withinMs && near(click));
+      recentClicks.push({ time: now, x: event.clientX, y: event.clientY });
+      if (recentClicks.length < clicks) return;
+      burst = {
+        id: Math.random().toString(36).slice(2),
+        start: recentClicks[0].time,
+        last: now,
+        count: recentClicks.length,
+        x: event.clientX,
+        y: event.clientY,
+      };
+      recentClicks = [];
+    }
+
+    report({
+      kind: 'rageClick',
+      burst: burst.id,
+      count: burst.count,
+      durationMs: now - burst.start,
+      element: describeElement(target),
+      text: labelElement(target),
+      x: Math.round(event.pageX),
+      y: Math.round(event.pageY),
+      url: location.href,
+    });
+  };
+
+  const reportedDeadClicks = new Set();
+  const respondsNatively = (target) => {
+    if (target === document.body || target === document.documentElement) return true;
+    if (target.closest('input, textarea, select, option, label, summary, [contenteditable="true"], [contenteditable=""]')) return true;
+    const link = target.closest('a[href]');
+    return link !== null && !/^(#|javascript:)/i.test(link.getAttribute('href'));
+  };
+  const checkDeadClick = (event, target) => {
+    if (respondsNatively(target)) return;
+
+    let changed = false;
+    const observer = new MutationObserver(() => {
+      changed = true;
+    });
+    observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+    const before = { url: location.href, x: scrollX, y: scrollY, focus: document.activeElement };
+
+    setTimeout(() => {
+      observer.disconnect();
+      const responded =
+        changed ||
+        location.href !== before.url ||
+        scrollX !== before.x ||
+        scrollY !== before.y ||
+        document.activeElement !== before.focus;
+      const element = describeElement(target);
+      if (responded || reportedDeadClicks.has(element)) return;
+      reportedDeadClicks.add(element);
+      report({
+        kind: 'deadClick',
+        element,
+        text: labelElement(target),
+        x: Math.round(event.pageX),
+        y: Math.round(event.pageY),
+        url: before.url,
+      });
+    }, config.deadClick.waitMs);
+  };
+
+  document.addEventListener('click', (event) => {
+    if (!event.isTrusted || !(event.target instanceof Element)) return;
+    if (config.rageClick) checkRageClick(event, event.target);
+    if (config.deadClick) checkDeadClick(event, event.target);
+  }, true);
+
+  document.addEventListener('submit', (event) => {
+    const form = event.target;
+    if (!(form instanceof HTMLFormElement)) return;
+    const query = searchQuery(form);
+    if (query && query.trim()) {
+      report({ kind: 'search', query, url: location.href });
+    }
+  }, true);
+})();`;
+}
+
+/**
+ * An observation a detector wants raised.
+ */
+export interface DetectedSignal {
+  /**
+   * Identifies an ongoing behaviour (a click burst, a repeated query). Later
+   * signals with the same key update the observation instead of adding one.
+   */
+  key: string;
+  type: ObservationType;
+  severity: ObservationSeverity;
+  description: string;
+  location: string;
+  recommendation: string;
+  evidence: SignalEvidence;
+}
+
+/**
+ * Turns page signals and session events into observations.
+ */
+export interface SignalDetector {
+  /** Handle an event from the in-page script */
+  page(signal: PageSignal): void;
+  /** Note an interaction or navigation; raises `idle` after a long pause */
+  activity(url?: string): void;
+  /** Note a back/forward traversal */
+  backNav(url?: string): void;
+  /** Stop the idle clock until the next activity, e.g. when a new test starts */
+  stopClock(): void;
+  /** Raise `idle` for a pause still going on, then stop the clock; for the end of a test or session */
+  flush(): void;
+}
+
+const RECOMMENDATIONS: Record<FrustrationSignal, string> = {
+  rageClick:
+    'Make the element respond visibly to the first click (feedback, a loading state), or disable it while it works',
+  deadClick:
+    'Make the element do what it looks like it does, or style it so it no longer looks clickable',
+  thrashing:
+    'Make what the persona was looking for easier to find so they do not bounce between pages',
+  idle: 'Check what the persona was waiting for or stuck on here: slow loading or an unclear next step',
+  repeatedSearch: 'Improve the results for this query so the first search finds what the persona needs',
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const clickTarget = (signal: { element: string; text: string }) =>
+  signal.text ? `"${signal.text}" (${signal.element})` : signal.element;
+
+/**
+ * Create a detector for the session.
+ *
+ * @param detectors - Resolved settings
+ * @param emit - Called with each observation to raise or update
+ */
+export function createSignalDetector(
+  detectors: ResolvedFrustrationDetectors,
+  emit: (signal: DetectedSignal) => void
+): SignalDetector {
+  let lastActivity: number | undefined;
+  let lastUrl: string | undefined;
+  let traversals: Array<{ time: number; url?: string }> = [];
+  let thrash: { key: string; start: number; last: number; count: number; urls: string[] } | undefined;
+  const searches = new Map<string, number>();
+
+  const checkIdle = (now: number, url?: string) => {
+    if (detectors.idle && lastActivity !== undefined && now - lastActivity >= detectors.idle.afterMs) {
+      const durationMs = now - lastActivity;
+      emit({
+        key: `idle-${lastActivity}`,
+        type: 'confusion',
+        severity: 'minor',
+        description: `No interaction for ${formatSeconds(durationMs)}`,
+        location: lastUrl ?? url ?? 'Session',
+        recommendation: RECOMMENDATIONS.idle,
+        evidence: { signal: 'idle', durationMs, ...(lastUrl && { urls: [lastUrl] }) },
+      });
+    }
+  };
+
+  const activity = (url?: string) => {
+    const now = Date.now();
+    checkIdle(now, url);
+    lastActivity = now;
+    if (url) lastUrl = url;
+  };
+
+  return {
+    page(signal) {
+      if (signal.kind === 'activity') {
+        activity(signal.url);
+        return;
+      }
+
+      if (signal.kind === 'rageClick' && detectors.rageClick) {
+        emit({
+          key: `rageClick-${signal.burst}`,
+          type: 'frustration',
+          severity: 'moderate',
+          description: `Rage click: clicked ${clickTarget(signal)} ${signal.count} times in ${formatSeconds(signal.durationMs)}`,
+          location: signal.url,
+          recommendation: RECOMMENDATIONS.rageClick,
+          evidence: {
+            signal: 'rageClick',
+            count: signal.count,
+            durationMs: signal.durationMs,
+            element: signal.element,
+            ...(signal.text && { text: signal.text }),
+            position: { x: signal.x, y: signal.y },
+          },
+        });
+      } else if (signal.kind === 'deadClick' && detectors.deadClick) {
+        emit({
+          key: `deadClick-${signal.url}-${signal.element}`,
+          type: 'confusion',
+          severity: 'minor',
+          description: `Dead click: clicking ${clickTarget(signal)} did nothing`,
+          location: signal.url,
+          recommendation: RECOMMENDATIONS.deadClick,
+          evidence: {
+            signal: 'deadClick',
+            element: signal.element,
+            ...(signal.text && { text: signal.text }),
+            position: { x: signal.x, y: signal.y },
+          },
+        });
+      } else if (signal.kind === 'search' && detectors.repeatedSearch) {
+        const query = signal.query.trim().replace(/\s+/g, ' ');
+        const normalized = query.toLowerCase();
+        const count = (searches.get(normalized) ?? 0) + 1;
+        searches.set(normalized, count);
+        if (count < detectors.repeatedSearch.times) return;
+
+        emit({
+          key: `repeatedSearch-${normalized}`,
+          type: 'frustration',
+          severity: 'minor',
+          description: `Searched for "${query}" ${count} times`,
+          location: signal.url,
+          recommendation: RECOMMENDATIONS.repeatedSearch,
+          evidence: { signal: 'repeatedSearch', count, query },
+        });
+      }
+    },
+
+    activity,
+
+    backNav(url) {
+      activity(url);
+      if (!detectors.thrashing) return;
+
+      const { navigations, withinMs } = detectors.thrashing;
+      const now = Date.now();
+      if (thrash && now - thrash.last <= withinMs) {
+        thrash.count++;
+        thrash.last = now;
+        if (url && thrash.urls[thrash.urls.length - 1] !== url) thrash.urls.push(url);
+      } else {
+        traversals = traversals.filter((t) => now - t.time <= withinMs);
+        traversals.push({ time: now, url });
+        if (traversals.length < navigations) return;
+
+        const urls = traversals.flatMap((t) => (t.url ? [t.url] : []));
+        thrash = {
+          key: `thrashing-${now}`,
+          start: traversals[0]!.time,
+          last: now,
+          count: traversals.length,
+          urls: urls.filter((u, i) => u !== urls[i - 1]),
+        };
+        traversals = [];
+      }
+
+      const durationMs = thrash.last - thrash.start;
+      emit({
+        key: thrash.key,
+        type: 'confusion',
+        severity: 'moderate',
+        description: `Went back and forth ${thrash.count} times in ${formatSeconds(durationMs)}`,
+        location: url ?? lastUrl ?? 'Session',
+        recommendation: RECOMMENDATIONS.thrashing,
+        evidence: {
+          signal: 'thrashing',
+          count: thrash.count,
+          durationMs,
+          ...(thrash.urls.length > 0 && { urls: [...thrash.urls] }),
+        },
+      });
+    },
+
+    stopClock() {
+      lastActivity = undefined;
+    },
+
+    flush() {
+      checkIdle(Date.now());
+      lastActivity = undefined;
+    },
+  };
+}
+
+const COUNT_UNITS: Partial<Record<FrustrationSignal, string>> = {
+  rageClick: 'clicks',
+  thrashing: 'traversals',
+  repeatedSearch: 'searches',
+};
+
+/**
+ * Summarise a detector's evidence in one line, e.g.
+ * `button.buy ("Buy now") · 5 clicks in 1.2s · at 320, 640`.
+ */
+export function formatSignalEvidence(evidence: SignalEvidence): string {
+  const parts: string[] = [];
+  if (evidence.element) {
+    parts.push(evidence.text ? `${evidence.element} ("${evidence.text}")` : evidence.element);
+  }
+  if (evidence.query) parts.push(`query "${evidence.query}"`);
+
+  const unit = COUNT_UNITS[evidence.signal];
+  if (evidence.count !== undefined && unit) {
+    parts.push(
+      evidence.durationMs !== undefined
+        ? `${evidence.count} ${unit} in ${formatSeconds(evidence.durationMs)}`
+        : `${evidence.count} ${unit}`
+    );
+  } else if (evidence.durationMs !== undefined) {
+    parts.push(formatSeconds(evidence.durationMs));
+  }
+  if (evidence.position) parts.push(`at ${evidence.position.x}, ${evidence.position.y}`);
+  if (evidence.urls?.length) parts.push(evidence.urls.join(' → '));
+
+  return parts.join(' · ');
+}
@@ -0,0 +1,81 @@
+import type { TaskFailure } from './types.js';
+
+/**
+ * Options for `collector.task()`.
+ */
+export interface TaskOptions {
+  /**
+   * Time budget in milliseconds. A task still running when it runs out is
+   * recorded as abandoned, the way a real user would give up.
+   */
+  budget?: number;
+  /**
+   * Rethrow an error or failed assertion from the body once the task is
+   * recorded, so the test fails too (default: true). Set to false to only
+   * record the failure and carry on. Abandoned tasks never throw.
+   */
+  rethrow?: boolean;
+}
+
+/**
+ * Handle passed to the body of `collector.task()`.
+ */
+export interface TaskContext {
+  /** ID of the task, for linking records by hand */
+  readonly id: string;
+  /** Aborted when the task ends, including when its time budget runs out */
+  readonly signal: AbortSignal;
+  /**
+   * Run a named sub-step and record its duration. Errors are recorded on
+   * the step and rethrown, failing the task.
+   */
+  step<T>(name: string, body: () => Promise<T> | T): Promise<T>;
+  /** Add a line to the task's notes */
+  note(text: string): void;
+  /** Stop the task and record it as abandoned for the given reason */
+  abandon(reason: string): never;
+}
+
+/**
+ * Thrown by `t.abandon()` to stop the task body.
+ */
+export class TaskAbandonedError extends Error {
+  constructor(readonly reason: string) {
+    super(reason);
+    this.name = 'TaskAbandonedError';
+  }
+}
+
+/**
+ * Thrown into steps that start after the task has ended.
+ */
+export class TaskEndedError extends Error {
+  constructor(taskName: string) {
+    super(`Task "${taskName}" has already ended`);
+    this.name = 'TaskEndedError';
+  }
+}
+
+/**
+ * Describe why a task body threw.
+ *
+ * @param error - What the body threw
+ * @param step - Step that was running, if any
+ */
+export function describeTaskFailure(error: unknown, step?: string): TaskFailure {
+  if (error instanceof TaskAbandonedError) {
+    return { reason: 'gaveUp', message: error.reason, ...(step && { step }) };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  // Playwright's expect() attaches the matcher result to its errors
+  const isAssertion =
+    error instanceof Error && ('matcherResult' in error || error.name === 'AssertionError');
+
+  return {
+    reason: isAssertion ? 'assertion' : 'error',
+    message,
+    ...(step && { step }),
+    ...(error instanceof Error && error.stack && { stack: error.stack }),
+  };
+}
@@ -0,0 +1,59 @@
+import type { TimelineEvent, TimelineEventKind } from './types.js';
+
+/**
+ * Display names for each kind of timeline event.
+ */
+export const TIMELINE_EVENT_LABELS: Record<TimelineEventKind, string> = {
+  navigation: 'Navigation',
+  click: 'Click',
+  search: 'Search',
+  back: 'Back',
+  error: 'Error',
+  observation: 'Observation',
+  screenshot: 'Screenshot',
+  taskStart: 'Task start',
+  taskEnd: 'Task end',
+};
+
+/**
+ * Format the time since the session started, e.g. `+1:05`.
+ *
+ * @param timestamp - When the event happened
+ * @param startTime - When the session started
+ */
+export function formatElapsed(timestamp: string, startTime: string): string {
+  const elapsed = Math.max(0, Date.parse(timestamp) - Date.parse(startTime));
+  if (Number.isNaN(elapsed)) return '';
+
+  const seconds = Math.floor(elapsed / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0
+    ? `+${hours}:${pad(minutes % 60)}:${pad(seconds % 60)}`
+    : `+${minutes}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Write the timeline as one line per event, for prompts and logs. URLs are
+ * only listed when the page changes.
+ *
+ * @param timeline - Events in chronological order
+ * @param startTime - When the session started
+ * @param limit - Most events to include; the rest are counted at the end
+ */
+export function formatTimeline(timeline: TimelineEvent[], startTime: string, limit = Infinity): string[] {
+  let lastUrl: string | undefined;
+  const lines = timeline.slice(0, limit).map((event) => {
+    const url = event.url && event.url !== lastUrl ? ` — ${event.url}` : '';
+    if (event.url) lastUrl = event.url;
+    return `${formatElapsed(event.timestamp, startTime)} [${TIMELINE_EVENT_LABELS[event.kind]}] ${
+      event.description
+    }${event.recordId ? ` (${event.recordId})` : ''}${url}`;
+  });
+
+  if (timeline.length > limit) {
+    lines.push(`… ${timeline.length - limit} more events`);
+  }
+  return lines;
+}
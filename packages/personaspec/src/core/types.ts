@@ -1,3 +1,5 @@
+import type { Locator } from '@playwright/test';
+
 /**
  * The four observation types from the PersonaSpec methodology.
  * Each represents a different category of feedback during testing.
@@ -13,6 +15,8 @@ export type ObservationSeverity = 'positive' | 'minor' | 'moderate' | 'critical'
  * A single observation recorded during testing.
  */
 export interface Observation {
+  /** Stable ID, derived from the type, location and description */
+  id: string;
   /** The type of observation */
   type: ObservationType;
   /** Description of what was observed */
@@ -25,12 +29,207 @@ export interface Observation {
   severity?: ObservationSeverity;
   /** Optional recommendation for improvement */
   recommendation?: string;
+  /** IDs of screenshots that evidence this observation */
+  screenshotIds?: string[];
+  /** ID of the task this observation was recorded during */
+  taskId?: string;
+  /** What a frustration detector saw, for observations it raised */
+  evidence?: SignalEvidence;
+  /** ID of the Playwright test this observation was recorded during */
+  testId?: string;
+  /** Worker or shard that recorded this observation (set when merging) */
+  worker?: string;
+}
+
+/**
+ * Behaviours the frustration detectors look for.
+ * - `rageClick`: several quick clicks on the same spot
+ * - `deadClick`: a click that changed nothing on the page
+ * - `thrashing`: going back and forth through history in quick succession
+ * - `idle`: a long pause with no interaction
+ * - `repeatedSearch`: searching for the same thing more than once
+ */
+export type FrustrationSignal = 'rageClick' | 'deadClick' | 'thrashing' | 'idle' | 'repeatedSearch';
+
+/**
+ * What a frustration detector saw.
+ */
+export interface SignalEvidence {
+  /** The detector that raised the observation */
+  signal: FrustrationSignal;
+  /** Clicks, history traversals or searches involved */
+  count?: number;
+  /** Time the behaviour lasted, in milliseconds */
+  durationMs?: number;
+  /** CSS selector of the clicked element */
+  element?: string;
+  /** Accessible name or visible text of the clicked element */
+  text?: string;
+  /** Click position in CSS pixels from the top left of the page */
+  position?: { x: number; y: number };
+  /** The repeated search query */
+  query?: string;
+  /** Pages involved, in the order they were visited */
+  urls?: string[];
+}
+
+/**
+ * Tuning for each frustration detector. Set a detector to `false` to turn it
+ * off; omitted settings use `DEFAULT_FRUSTRATION_DETECTORS`.
+ */
+export interface FrustrationDetectorOptions {
+  rageClick?:
+    | false
+    | {
+        /** Clicks that make a burst (default: 3) */
+        clicks?: number;
+        /** Window the clicks must fall within, in milliseconds (default: 1000) */
+        withinMs?: number;
+        /** How far apart the clicks may be, in CSS pixels (default: 30) */
+        radiusPx?: number;
+      };
+  deadClick?:
+    | false
+    | {
+        /** How long to wait for the page to respond, in milliseconds (default: 1000) */
+        waitMs?: number;
+      };
+  thrashing?:
+    | false
+    | {
+        /** Back/forward traversals that count as thrashing (default: 3) */
+        navigations?: number;
+        /** Window they must fall within, in milliseconds (default: 10000) */
+        withinMs?: number;
+      };
+  idle?:
+    | false
+    | {
+        /** Pause between interactions that counts as idle, in milliseconds (default: 15000) */
+        afterMs?: number;
+      };
+  repeatedSearch?:
+    | false
+    | {
+        /** Identical searches before raising an observation (default: 2) */
+        times?: number;
+      };
+}
+
+/**
+ * A highlighted region on a screenshot, in CSS pixels relative to the image.
+ */
+export interface ScreenshotAnnotation {
+  /** Label drawn next to the region */
+  label?: string;
+  /** Left edge */
+  x: number;
+  /** Top edge */
+  y: number;
+  /** Width of the region */
+  width: number;
+  /** Height of the region */
+  height: number;
+}
+
+/**
+ * An element to outline on a screenshot, with an optional label.
+ */
+export interface HighlightTarget {
+  /** The element to outline */
+  locator: Locator;
+  /** Label drawn next to the outline (default: its position in the list, from 1) */
+  label?: string;
+}
+
+/**
+ * Options for `ObservationCollector.screenshot`.
+ */
+export interface ScreenshotOptions {
+  /** Capture the full scrollable page instead of the viewport */
+  fullPage?: boolean;
+  /** Capture only this element */
+  locator?: Locator;
+  /** Outline one or more elements before capture */
+  highlight?: Locator | HighlightTarget | Array<Locator | HighlightTarget>;
+  /** Elements to ignore when comparing against the visual baseline */
+  mask?: Locator | Locator[];
+  /** Compare against the visual baseline (default: true when the collector's `visualBaseline` is on) */
+  baseline?: boolean;
+}
+
+/**
+ * A rectangle on a screenshot, in CSS pixels from the image's top left.
+ */
+export interface ScreenshotRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Outcome of comparing a screenshot with its baseline:
+ * - `new`: there is no baseline for this name yet
+ * - `match`: differences are within the threshold
+ * - `changed`: more pixels differ than the threshold allows
+ * - `resized`: the image size differs from the baseline's
+ */
+export type VisualDiffStatus = 'new' | 'match' | 'changed' | 'resized';
+
+/**
+ * Comparison of a screenshot with the stored baseline of the same name.
+ */
+export interface VisualDiff {
+  status: VisualDiffStatus;
+  /** Path of the baseline image */
+  baseline: string;
+  /** Number of pixels that differ, outside masked regions */
+  diffPixels?: number;
+  /** Share of the image's pixels that differ (0-1) */
+  diffRatio?: number;
+  /** Baseline image size in device pixels, when it was resized */
+  baselineSize?: { width: number; height: number };
+  /** ID of the screenshot holding the diff image */
+  diffId?: string;
+  /** Regions left out of the comparison */
+  masks?: ScreenshotRegion[];
+}
+
+/**
+ * Settings for comparing screenshots against stored baselines.
+ */
+export interface VisualBaselineOptions {
+  /** Directory of baseline images (default: 'persona-baselines') */
+  dir?: string;
+  /** Share of pixels (0-1) that may differ before a change is reported (default: 0) */
+  threshold?: number;
+  /** How different a pixel's color must be to count, from 0 (any) to 1 (default: 0.1) */
+  colorThreshold?: number;
+  /** Don't count pixels that look like anti-aliasing (default: true) */
+  ignoreAntialiasing?: boolean;
+  /** Regions to ignore on every screenshot */
+  mask?: ScreenshotRegion[];
+}
+
+/**
+ * A named browser viewport (breakpoint).
+ */
+export interface NamedViewport {
+  /** Breakpoint name (e.g., "mobile", "tablet") */
+  name: string;
+  /** Viewport width in CSS pixels */
+  width: number;
+  /** Viewport height in CSS pixels */
+  height: number;
 }
 
 /**
  * A screenshot captured during testing.
  */
 export interface Screenshot {
+  /** Stable ID, derived from the name */
+  id: string;
   /** Descriptive name for the screenshot */
   name: string;
   /** Context explaining what the user was doing/seeing */
@@ -41,16 +240,42 @@ export interface Screenshot {
   pageTitle: string;
   /** Path to the screenshot file on disk */
   filepath: string;
-  /** Base64-encoded image data for AI analysis */
+  /** Base64-encoded image data for AI analysis (empty when not inlined) */
   base64: string;
+  /** SHA-256 hash of the image bytes */
+  hash?: string;
+  /** Path of the image in the content-addressed store, relative to the results file */
+  ref?: string;
+  /** What was captured (default: 'viewport') */
+  capture?: 'viewport' | 'fullPage' | 'element';
+  /** Image size in CSS pixels */
+  size?: { width: number; height: number };
+  /** Highlighted regions drawn on the image */
+  annotations?: ScreenshotAnnotation[];
+  /** ID of the task this screenshot was captured during */
+  taskId?: string;
+  /** Viewport the screenshot was captured at, for multi-viewport captures */
+  viewport?: NamedViewport;
+  /** ID of the first screenshot from the same `screenshotAcrossViewports` call */
+  viewportGroup?: string;
+  /** Comparison with the visual baseline */
+  visualDiff?: VisualDiff;
+  /** ID of the screenshot this image is the baseline diff of */
+  diffOf?: string;
+  /** What AI analysis found in this screenshot (set by `personaspec analyze`) */
+  findings?: ScreenshotFinding[];
   /** When the screenshot was captured */
   timestamp: string;
+  /** Worker or shard that captured this screenshot (set when merging) */
+  worker?: string;
 }
 
 /**
  * Result of a single task test.
  */
 export interface TaskResult {
+  /** Stable ID, derived from the name */
+  id: string;
   /** Name of the task */
   name: string;
   /** Whether the task was completed successfully */
@@ -59,6 +284,111 @@ export interface TaskResult {
   duration: number;
   /** Notes about the task execution */
   notes: string;
+  /** When the task was recorded */
+  timestamp?: string;
+  /** How the task ended (tasks run with `collector.task()`) */
+  outcome?: TaskOutcome;
+  /** Why the task didn't complete */
+  failure?: TaskFailure;
+  /** Named sub-steps, in the order they finished */
+  steps?: TaskStep[];
+  /** Time budget in milliseconds, if one was set */
+  budget?: number;
+  /** ID of the task this one ran inside */
+  parentId?: string;
+  /** ID of the Playwright test the task ran in, whose trace and video cover it */
+  testId?: string;
+  /** Worker or shard that ran this task (set when merging) */
+  worker?: string;
+}
+
+/**
+ * How a task ended.
+ * - `completed`: the persona achieved it
+ * - `failed`: something went wrong (an error or failed assertion)
+ * - `abandoned`: the persona gave up, or ran out of time
+ */
+export type TaskOutcome = 'completed' | 'failed' | 'abandoned';
+
+/**
+ * Why a task didn't complete.
+ * - `assertion`: an `expect()` failed
+ * - `error`: any other error was thrown
+ * - `timeBudget`: the task ran past its time budget
+ * - `gaveUp`: the test called `t.abandon()`
+ */
+export type TaskFailureReason = 'assertion' | 'error' | 'timeBudget' | 'gaveUp';
+
+/**
+ * Structured reason for a failed or abandoned task.
+ */
+export interface TaskFailure {
+  /** What kind of failure it was */
+  reason: TaskFailureReason;
+  /** Error message or the reason given to `t.abandon()` */
+  message: string;
+  /** Step that was running when it happened */
+  step?: string;
+  /** Stack trace of the error */
+  stack?: string;
+}
+
+/**
+ * A named sub-step of a task.
+ */
+export interface TaskStep {
+  /** Name of the step */
+  name: string;
+  /** Whether the step finished without an error */
+  success: boolean;
+  /** Time taken in milliseconds */
+  duration: number;
+  /** Error message if the step failed */
+  error?: string;
+}
+
+/**
+ * A Playwright test the collector was used in, with the artifacts Playwright
+ * recorded for it.
+ */
+export interface TestRun {
+  /** Stable ID, derived from the title */
+  id: string;
+  /** Test title, including its describe blocks */
+  title: string;
+  /** When the test started; trace and video times count from here */
+  startTime: string;
+  /** How the test ended */
+  status?: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+  /** Test duration in milliseconds */
+  duration?: number;
+  /** Retry number, set for retried tests; merging keeps only each test's latest attempt */
+  retry?: number;
+  /** Path to the Playwright trace, as recorded by Playwright */
+  trace?: string;
+  /** Path to the video recording, as recorded by Playwright */
+  video?: string;
+  /** Worker or shard that ran the test (set when merging) */
+  worker?: string;
+}
+
+/**
+ * The parts of Playwright's `TestInfo` the collector reads test artifacts
+ * from. Pass `testInfo` itself.
+ */
+export interface TestArtifactSource {
+  /** Test title */
+  title: string;
+  /** Titles of the file, describe blocks and test */
+  titlePath?: string[];
+  /** Files attached to the test; Playwright adds the trace and video at the end of the test */
+  attachments: Array<{ name: string; contentType: string; path?: string }>;
+  /** How the test ended */
+  status?: TestRun['status'];
+  /** Test duration in milliseconds */
+  duration?: number;
+  /** Which retry this is, 0 for the first attempt */
+  retry?: number;
 }
 
 /**
@@ -79,12 +409,119 @@ export interface SessionMetrics {
   backNavCount: number;
   /** Console errors encountered */
   consoleErrors: string[];
+  /** Console errors, uncaught exceptions and failed requests, in the order they happened */
+  errors?: SessionError[];
   /** Viewports tested (if multiple) */
   viewportsTested?: string[];
   /** Total screenshots captured */
   screenshotsCaptured?: number;
+  /** Web performance of each page load, in visit order (instrumented pages only) */
+  performance?: PagePerformance[];
 }
 
+/**
+ * Kinds of errors recorded during a session.
+ * - `console`: `console.error()` output
+ * - `pageError`: an uncaught exception in the page
+ * - `httpError`: a response with a 4xx or 5xx status
+ * - `requestFailed`: a request that got no response (network error, aborted, blocked)
+ */
+export type SessionErrorKind = 'console' | 'pageError' | 'httpError' | 'requestFailed';
+
+/**
+ * An error that happened in the browser during the session.
+ */
+export interface SessionError {
+  /** What kind of error it was */
+  kind: SessionErrorKind;
+  /** Error message, status text or network failure reason */
+  message: string;
+  /** Request URL, or the script URL for console errors */
+  url?: string;
+  /** HTTP method of the failed request */
+  method?: string;
+  /** HTTP status code (httpError only) */
+  status?: number;
+  /** Stack trace (pageError only) */
+  stack?: string;
+  /** When it happened (ISO timestamp) */
+  timestamp: string;
+  /** URL of the page the persona was on */
+  pageUrl?: string;
+  /** ID of the task in progress when it happened */
+  taskId?: string;
+  /** Worker or shard that recorded it (set when results are merged) */
+  worker?: string;
+}
+
+/**
+ * Kinds of events in the session timeline.
+ */
+export type TimelineEventKind =
+  | 'navigation'
+  | 'click'
+  | 'search'
+  | 'back'
+  | 'error'
+  | 'observation'
+  | 'screenshot'
+  | 'taskStart'
+  | 'taskEnd';
+
+/**
+ * One entry in the chronological log of everything that happened in a
+ * session.
+ */
+export interface TimelineEvent {
+  /** What kind of event it was */
+  kind: TimelineEventKind;
+  /** When it happened (ISO timestamp) */
+  timestamp: string;
+  /** What happened, in a few words */
+  description: string;
+  /** URL of the page the persona was on, when known */
+  url?: string;
+  /** ID of the observation, screenshot or task the event is about */
+  recordId?: string;
+  /** ID of the task in progress when it happened */
+  taskId?: string;
+  /** Worker or shard that recorded it (set when results are merged) */
+  worker?: string;
+}
+
+/**
+ * Web performance metrics that can be measured for a page load.
+ */
+export type PerformanceMetric = 'lcp' | 'cls' | 'inp' | 'ttfb' | 'transferSize';
+
+/**
+ * Web performance measured for one page load (navigation).
+ */
+export interface PagePerformance {
+  /** URL of the loaded page */
+  url: string;
+  /** When the navigation started (ISO timestamp) */
+  timestamp: string;
+  /** Time to first byte in milliseconds */
+  ttfb?: number;
+  /** Largest Contentful Paint in milliseconds */
+  lcp?: number;
+  /** Cumulative Layout Shift (unitless score) */
+  cls?: number;
+  /** Interaction to Next Paint in milliseconds (only if the page was interacted with) */
+  inp?: number;
+  /** Bytes transferred over the network (all requests on Chromium, same-origin resources elsewhere) */
+  transferSize?: number;
+  /** Worker or shard that recorded the page load (set when results are merged) */
+  worker?: string;
+}
+
+/**
+ * Values above which a page load is recorded as a frustration. Omit a metric
+ * to skip it.
+ */
+export type PerformanceThresholds = Partial<Record<PerformanceMetric, number>>;
+
 /**
  * Complete persona definition with the 4 required attributes.
  */
@@ -99,6 +536,169 @@ export interface PersonaDefinition {
   goals: string[];
   /** How the persona typically interacts with software */
   behaviors: string[];
+  /** Browser setup that matches how the persona browses */
+  environment?: PersonaEnvironment;
+  /**
+   * Tuning for the frustration detectors on instrumented pages, or `false`
+   * to turn them all off (default: all on with default settings)
+   */
+  frustrationDetectors?: FrustrationDetectorOptions | false;
+}
+
+/**
+ * Network speed to emulate.
+ */
+export interface NetworkConditions {
+  /** Download speed in kilobits per second */
+  downloadKbps: number;
+  /** Upload speed in kilobits per second */
+  uploadKbps: number;
+  /** Added round-trip latency in milliseconds */
+  latencyMs: number;
+}
+
+/**
+ * Name of a built-in network speed, or `offline`.
+ */
+export type NetworkPresetName = 'slow3g' | 'fast3g' | 'slow4g' | 'offline';
+
+/**
+ * How the persona operates the page.
+ * - `mouse`: a pointer, no touch support
+ * - `touch`: a touchscreen (enables touch events)
+ * - `keyboard`: keyboard only; tests should navigate with Tab and Enter
+ */
+export type InputMode = 'mouse' | 'touch' | 'keyboard';
+
+/**
+ * Browser settings that make a Playwright context behave like the persona's
+ * device and preferences. Every field is optional.
+ */
+export interface PersonaEnvironment {
+  /** Playwright device to emulate (e.g. 'iPhone 13'); other fields override it */
+  device?: string;
+  /** Window size in CSS pixels, before zoom */
+  viewport?: { width: number; height: number };
+  /** Network speed (Chromium only, except `offline`) */
+  network?: NetworkPresetName | NetworkConditions;
+  /** CPU slowdown factor, e.g. 4 for a mid-range phone (Chromium only) */
+  cpuSlowdown?: number;
+  /** Locale, e.g. 'de-DE' */
+  locale?: string;
+  /** IANA timezone, e.g. 'Europe/Berlin' */
+  timezone?: string;
+  /** Preferred color scheme */
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  /** Whether the persona asks for reduced motion */
+  reducedMotion?: 'reduce' | 'no-preference';
+  /** Browser zoom factor, e.g. 2 for 200% */
+  zoom?: number;
+  /** How the persona operates the page */
+  input?: InputMode;
+}
+
+/**
+ * Impact of an accessibility violation, as reported by axe-core.
+ */
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+/**
+ * A single accessibility rule violation found by an audit.
+ */
+export interface AccessibilityViolation {
+  /** axe-core rule ID (e.g., "color-contrast") */
+  id: string;
+  /** How badly the violation affects users */
+  impact?: AccessibilityImpact;
+  /** What the rule checks */
+  description: string;
+  /** How to fix violations of the rule */
+  help: string;
+  /** Link to the rule's documentation */
+  helpUrl: string;
+  /** WCAG and best-practice tags for the rule */
+  tags: string[];
+  /** Elements that violate the rule */
+  nodes: Array<{
+    /** CSS selector path to the element */
+    target: string[];
+    /** The element's HTML */
+    html: string;
+    /** Summary of what failed for this element */
+    failureSummary?: string;
+  }>;
+  /** ID of the observation recorded for this violation */
+  observationId?: string;
+}
+
+/**
+ * Raw findings from one `auditAccessibility` run.
+ */
+export interface AccessibilityAudit {
+  /** URL of the audited page */
+  url: string;
+  /** Selector of the audited element, when scoped to a locator */
+  scope?: string;
+  /** When the audit ran */
+  timestamp: string;
+  /** axe-core version used */
+  engine: string;
+  /** Rule tags the audit was limited to */
+  tags: string[];
+  /** Rules that failed */
+  violations: AccessibilityViolation[];
+  /** Number of rules that passed */
+  passes: number;
+  /** Number of rules that need manual review */
+  incomplete: number;
+}
+
+/**
+ * Options for `ObservationCollector.auditAccessibility`.
+ */
+export interface AccessibilityAuditOptions {
+  /** Audit only this element and its descendants */
+  locator?: Locator;
+  /** Rule tags to run (default: WCAG 2.0 and 2.1 A and AA) */
+  tags?: string[];
+  /** Enable or disable individual rules by ID */
+  rules?: Record<string, { enabled: boolean }>;
+  /** Ignore violations below this impact (default: 'minor', i.e. keep all) */
+  minImpact?: AccessibilityImpact;
+  /** Where in the app the observations are reported (default: page URL) */
+  location?: string;
+}
+
+/**
+ * Aspect of the experience an analysis finding is about.
+ */
+export type FindingCategory = 'ux' | 'accessibility' | 'design' | 'goal';
+
+/**
+ * Something AI analysis found in one screenshot.
+ */
+export interface ScreenshotFinding {
+  category: FindingCategory;
+  /** How badly it affects the persona; 'positive' for things that work well */
+  severity: ObservationSeverity;
+  description: string;
+  /** Concrete fix, for problems */
+  recommendation?: string;
+  /** Batch of a chunked analysis the finding came from (1-based) */
+  batch?: number;
+}
+
+/**
+ * Priority of an analysis recommendation.
+ */
+export type RecommendationPriority = 'critical' | 'important' | 'niceToHave';
+
+/**
+ * An improvement suggested by AI analysis.
+ */
+export interface SummaryRecommendation {
+  priority: RecommendationPriority;
+  text: string;
 }
 
 /**
@@ -107,6 +707,10 @@ export interface PersonaDefinition {
 export interface TestSummary {
   /** Overall score (e.g., "A", "B+", "C") */
   overallScore?: string;
+  /** Why the score was given */
+  scoreRationale?: string;
+  /** Two or three sentences on how the session went */
+  executiveSummary?: string;
   /** Things that worked well */
   strengths: string[];
   /** Areas that need improvement */
@@ -117,12 +721,22 @@ export interface TestSummary {
   moderateIssues: number;
   /** Count of minor issues found */
   minorIssues: number;
+  /** Suggested improvements, most urgent first */
+  recommendations?: SummaryRecommendation[];
+  /** Model that wrote the summary, when it came from `personaspec analyze` */
+  model?: string;
+  /** When the summary was written */
+  analyzedAt?: string;
+  /** Number of batches the screenshots were analyzed in, for chunked analysis */
+  batches?: number;
 }
 
 /**
  * Complete output structure saved to JSON after a persona test run.
  */
 export interface PersonaTestResults {
+  /** Version of the results file format, used to migrate older files */
+  schemaVersion: number;
   /** Persona name and role */
   persona: string;
   /** Persona background */
@@ -131,6 +745,10 @@ export interface PersonaTestResults {
   goals: string[];
   /** Persona behaviors */
   behaviors: string[];
+  /** Browser environment the persona was tested in */
+  environment?: PersonaEnvironment;
+  /** Playwright project the session ran in; visual baselines are kept per project */
+  project?: string;
   /** Session metrics */
   session: SessionMetrics;
   /** Task results */
@@ -139,8 +757,18 @@ export interface PersonaTestResults {
   observations: Observation[];
   /** Screenshots captured */
   screenshots: Screenshot[];
+  /** Accessibility audits run with `auditAccessibility` */
+  accessibility?: AccessibilityAudit[];
+  /** Everything that happened in the session, in chronological order */
+  timeline?: TimelineEvent[];
+  /** Playwright tests the collector was used in, with their traces and videos */
+  tests?: TestRun[];
   /** Optional summary (populated after AI analysis) */
   summary?: TestSummary;
+  /** Worker or shard that wrote this file, for partial results */
+  worker?: string;
+  /** Workers or shards whose partial results were merged into this file */
+  mergedFrom?: string[];
 }
 
 /**
@@ -151,8 +779,37 @@ export interface CollectorConfig {
   outputDir: string;
   /** The persona being tested */
   persona: PersonaDefinition;
-  /** Whether to include base64 data in output (default: true) */
+  /** Whether to include base64 data in output (default: true, or false with `screenshotStore`) */
   includeBase64?: boolean;
+  /**
+   * Write screenshots to a content-addressed store in
+   * `<outputDir>/screenshots/store/`, keyed by hash, so identical captures
+   * are stored once and results only hold a reference (default: false)
+   */
+  screenshotStore?: boolean;
   /** Screenshot format (default: 'png') */
   screenshotFormat?: 'png' | 'jpeg';
+  /**
+   * Worker or shard ID. When set, `save()` writes a partial results file to
+   * `<outputDir>/partials/` for combining with `personaspec merge`.
+   */
+  workerId?: string;
+  /**
+   * Playwright project the session runs in, e.g. "firefox" or "mobile".
+   * Saved with the results and used to keep visual baselines apart per
+   * project, since each browser and viewport renders differently.
+   */
+  project?: string;
+  /**
+   * Raise a `frustration` observation when a page load on an instrumented
+   * page exceeds these values, or `false` to never raise them
+   * (default: the "poor" Core Web Vitals limits, see `DEFAULT_PERFORMANCE_THRESHOLDS`)
+   */
+  performanceThresholds?: PerformanceThresholds | false;
+  /**
+   * Compare PNG screenshots with the baseline of the same persona and name,
+   * saving a diff image and raising a `note` observation when they differ,
+   * or `false` to skip comparison (default: false)
+   */
+  visualBaseline?: VisualBaselineOptions | boolean;
 }
@@ -0,0 +1,36 @@
+import type { NamedViewport } from './types.js';
+
+/**
+ * Breakpoint presets for `ObservationCollector.screenshotAcrossViewports`,
+ * matching the personas in `personaTemplates` that care about them.
+ *
+ * @example
+ * ```typescript
+ * await collector.screenshotAcrossViewports(page, 'pricing', 'Pricing at each breakpoint', 'designReviewer');
+ * await collector.screenshotAcrossViewports(page, 'nav', 'Navigation on phones', viewportPresets.mobileUser);
+ * ```
+ */
+export const viewportPresets = {
+  /**
+   * Desktop, tablet and phone breakpoints for checking responsive layouts.
+   */
+  designReviewer: [
+    { name: 'desktop', width: 1440, height: 900 },
+    { name: 'tablet', width: 768, height: 1024 },
+    { name: 'mobile', width: 375, height: 812 },
+  ],
+
+  /**
+   * Common phone sizes, from a small Android to a large iPhone.
+   */
+  mobileUser: [
+    { name: 'small-phone', width: 360, height: 740 },
+    { name: 'phone', width: 375, height: 812 },
+    { name: 'large-phone', width: 430, height: 932 },
+  ],
+} satisfies Record<string, NamedViewport[]>;
+
+/**
+ * Name of a built-in viewport preset.
+ */
+export type ViewportPresetName = keyof typeof viewportPresets;
@@ -7,19 +7,232 @@
 // Core class
 export { ObservationCollector } from './core/ObservationCollector.js';
 
+// Results files
+export {
+  RESULTS_SCHEMA_VERSION,
+  ResultsValidationError,
+  migrateResults,
+  validateResults,
+  readResults,
+} from './core/results.js';
+export type { ResultsValidationIssue } from './core/results.js';
+
+// Screenshot store
+export {
+  readScreenshotImage,
+  rebaseScreenshotRefs,
+  packResults,
+} from './core/screenshotStore.js';
+
+// AI analysis providers
+export {
+  AnalysisProviderError,
+  analysisRequestKey,
+  createAnalysisProvider,
+  createAnthropicProvider,
+  createCachedProvider,
+  createOpenAIProvider,
+  createReplayProvider,
+  DEFAULT_ANALYSIS_CACHE_DIR,
+  DEFAULT_ANALYSIS_MODELS,
+} from './core/analysisProvider.js';
+export type {
+  AnalysisContent,
+  AnalysisOutputFormat,
+  AnalysisProvider,
+  AnalysisProviderName,
+  AnalysisRecording,
+  AnalysisRequest,
+  AnalysisResponse,
+  HttpProviderOptions,
+  RetryInfo,
+} from './core/analysisProvider.js';
+
+// Structured analysis
+export {
+  ANALYSIS_OUTPUT_FORMAT,
+  applyAnalysis,
+  BATCH_OUTPUT_FORMAT,
+  combineBatchOutputs,
+  DEFAULT_BATCH_LIMITS,
+  estimateImageTokens,
+  FINDING_CATEGORY_LABELS,
+  formatAnalysisMarkdown,
+  parseAnalysisOutput,
+  parseBatchOutput,
+  parseSummaryOutput,
+  planAnalysisBatches,
+  RECOMMENDATION_PRIORITY_LABELS,
+  SUMMARY_OUTPUT_FORMAT,
+} from './core/analysis.js';
+export type {
+  AnalysisBatchLimits,
+  AnalysisOutput,
+  BatchAnalysisOutput,
+  ParsedAnalysisOutput,
+  SummaryAnalysisOutput,
+} from './core/analysis.js';
+
+// Image preprocessing
+export {
+  ANALYSIS_IMAGE_BUDGET,
+  detectImageFormat,
+  formatImageReduction,
+  IMAGE_MEDIA_TYPES,
+  prepareImage,
+  readPreparedImage,
+  REPORT_IMAGE_BUDGET,
+} from './core/image.js';
+export type { ImageBudget, ImageFormat, PrepareImageOptions, PreparedImage } from './core/image.js';
+
+// Merging partial results
+export { mergeResults } from './core/merge.js';
+
+// Comparing runs
+export {
+  diffResults,
+  formatDiffMarkdown,
+  formatMetricDelta,
+  isMetricImproved,
+  OBSERVATION_CHANGE_LABELS,
+  TASK_CHANGE_LABELS,
+} from './core/diff.js';
+export type {
+  ObservationChange,
+  ObservationChangeKind,
+  TaskChange,
+  TaskChangeKind,
+  MetricChange,
+  ResultsDiff,
+} from './core/diff.js';
+
+// Combining personas
+export { aggregateResults } from './core/aggregate.js';
+export type {
+  AggregateResults,
+  ObservationCounts,
+  PageRow,
+  PersonaSummary,
+  SharedIssue,
+} from './core/aggregate.js';
+
+// Scoped tasks
+export type { TaskContext, TaskOptions } from './core/task.js';
+
+// Playwright fixture
+export { personaTest, describePersona } from './core/personaTest.js';
+export type {
+  PersonaTestOptions,
+  PersonaTestPageOptions,
+  PersonaWorkerFixtures,
+  PersonaTestFixtures,
+} from './core/personaTest.js';
+
+// Viewport presets
+export { viewportPresets } from './core/viewports.js';
+export type { ViewportPresetName } from './core/viewports.js';
+
+// Session errors
+export {
+  groupSessionErrors,
+  formatSessionError,
+  formatSessionErrorGroup,
+  SESSION_ERROR_LABELS,
+} from './core/errors.js';
+export type { SessionErrorGroup } from './core/errors.js';
+
+// Web performance
+export { DEFAULT_PERFORMANCE_THRESHOLDS } from './core/performance.js';
+
+// Visual baselines
+export {
+  DEFAULT_BASELINE_DIR,
+  baselinePath,
+  compareWithBaseline,
+  resolveVisualBaseline,
+} from './core/baseline.js';
+export type { BaselineComparison, ResolvedVisualBaseline } from './core/baseline.js';
+
+// Session timeline
+export { formatElapsed, formatTimeline, TIMELINE_EVENT_LABELS } from './core/timeline.js';
+
+// Frustration signals
+export {
+  DEFAULT_FRUSTRATION_DETECTORS,
+  formatSignalEvidence,
+  resolveFrustrationDetectors,
+  SIGNAL_LABELS,
+} from './core/signals.js';
+export type { ResolvedFrustrationDetectors } from './core/signals.js';
+
+// Persona environments
+export {
+  createPersonaContext,
+  environmentContextOptions,
+  applyEnvironmentThrottling,
+  networkPresets,
+} from './core/environment.js';
+
 // Helper functions
-export { definePersona, personaTemplates } from './core/helpers.js';
+export {
+  definePersona,
+  validatePersona,
+  describePersonaEnvironment,
+  personaTemplates,
+  templateEnvironments,
+} from './core/helpers.js';
+export type { PersonaValidationIssue } from './core/helpers.js';
+
+// Persona files
+export { loadPersona, parsePersona, formatPersonaFileIssue } from './core/personaFile.js';
+export type { PersonaFileIssue, PersonaFileResult } from './core/personaFile.js';
 
 // Types
 export type {
   ObservationType,
   ObservationSeverity,
   Observation,
+  FrustrationSignal,
+  FrustrationDetectorOptions,
+  SignalEvidence,
   Screenshot,
+  ScreenshotAnnotation,
+  NamedViewport,
+  ScreenshotOptions,
+  HighlightTarget,
+  ScreenshotRegion,
+  VisualDiff,
+  VisualDiffStatus,
+  VisualBaselineOptions,
   TaskResult,
+  TaskOutcome,
+  TaskFailure,
+  TaskFailureReason,
+  TaskStep,
   SessionMetrics,
+  SessionError,
+  SessionErrorKind,
+  TimelineEvent,
+  TimelineEventKind,
+  TestRun,
+  TestArtifactSource,
+  PagePerformance,
+  PerformanceMetric,
+  PerformanceThresholds,
   PersonaDefinition,
+  PersonaEnvironment,
+  NetworkConditions,
+  NetworkPresetName,
+  InputMode,
   PersonaTestResults,
   TestSummary,
+  FindingCategory,
+  ScreenshotFinding,
+  RecommendationPriority,
+  SummaryRecommendation,
+  AccessibilityImpact,
+  AccessibilityViolation,
+  AccessibilityAudit,
+  AccessibilityAuditOptions,
   CollectorConfig,
 } from './core/types.js';
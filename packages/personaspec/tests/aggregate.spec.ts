@@ -0,0 +1,53 @@
+import { expect, test } from '@playwright/test';
+import { aggregateResults, RESULTS_SCHEMA_VERSION, type PersonaTestResults } from '../src/index.js';
+
+function run(persona: string, description: string): PersonaTestResults {
+  return {
+    schemaVersion: RESULTS_SCHEMA_VERSION,
+    persona,
+    background: '',
+    goals: [],
+    behaviors: [],
+    session: {
+      startTime: '2025-03-01T10:00:00.000Z',
+      pagesVisited: 1,
+      clickCount: 0,
+      searchCount: 0,
+      backNavCount: 0,
+      consoleErrors: [],
+    },
+    tasks: [],
+    observations: [
+      {
+        id: 'obs-1',
+        type: 'confusion',
+        severity: 'moderate',
+        description,
+        location: 'https://example.com/pricing',
+        timestamp: '2025-03-01T10:01:00.000Z',
+      },
+    ],
+    screenshots: [],
+  };
+}
+
+test.describe('aggregateResults()', () => {
+  test('counts shared issues by persona, not by results file', () => {
+    const pricing = 'Pricing link only in the footer';
+    const aggregate = aggregateResults([
+      run('Alex - First-Time Visitor', pricing),
+      run('Alex - First-Time Visitor', pricing),
+      run('Dana - Commuter', pricing),
+      run('Sam - Admin', 'Settings page times out'),
+      run('Sam - Admin', 'Settings page times out'),
+    ]);
+
+    // Sam's two runs alone don't make a shared issue
+    expect(aggregate.sharedIssues).toHaveLength(1);
+    expect(aggregate.sharedIssues[0]).toMatchObject({
+      personas: ['Alex - First-Time Visitor', 'Dana - Commuter'],
+      severity: 'moderate',
+    });
+    expect(aggregate.sharedIssues[0]!.observations.map(({ run }) => run)).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,135 @@
+import { expect, test } from '@playwright/test';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { analyzeCommand } from '../src/cli/commands/analyze.js';
+import {
+  AnalysisProviderError,
+  combineBatchOutputs,
+  createReplayProvider,
+  parseAnalysisOutput,
+  planAnalysisBatches,
+  readResults,
+  type Screenshot,
+} from '../src/index.js';
+
+const fixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'analysis');
+
+function screenshot(id: string, size?: { width: number; height: number }): Screenshot {
+  return {
+    id,
+    name: id,
+    context: '',
+    url: 'https://example.com/',
+    pageTitle: 'Example',
+    filepath: `screenshots/${id}.png`,
+    base64: '',
+    timestamp: '2025-03-01T10:00:00.000Z',
+    ...(size && { size }),
+  };
+}
+
+test.describe('replayed analysis', () => {
+  // The recording was made by `analyze --record` from these fixtures; record
+  // it again when the prompt changes
+  test('analyze replays the recorded request and writes the summary to the results', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('run');
+    await fs.cp(fixtures, dir, { recursive: true });
+    const resultsPath = path.join(dir, 'alex-observations.json');
+    const reportPath = path.join(dir, 'analysis.md');
+
+    await analyzeCommand.parseAsync(
+      [resultsPath, '--replay', path.join(dir, 'recordings'), '--output', reportPath],
+      { from: 'user' }
+    );
+
+    const analyzed = await readResults(resultsPath);
+    expect(analyzed.summary).toMatchObject({
+      overallScore: 'B',
+      executiveSummary: 'Alex understood the product but struggled to find pricing.',
+      // The finding for a screenshot the results don't have is dropped
+      criticalIssues: 1,
+      moderateIssues: 1,
+      minorIssues: 1,
+      recommendations: [{ priority: 'important', text: 'Link pricing from the header' }],
+      model: 'claude-sonnet-4-20250514',
+    });
+    expect(analyzed.screenshots.map((ss) => ss.findings?.map((f) => f.description))).toEqual([
+      ['No pricing link in the header', 'Low contrast on the hero subtitle'],
+      // Findings from an earlier analysis are replaced
+      ['Plan comparison table overflows on scroll'],
+      // Baseline diff images aren't sent; a request with one wouldn't match the recording
+      undefined,
+    ]);
+    expect(await fs.readFile(reportPath, 'utf-8')).toContain('Add Pricing to the main navigation');
+  });
+
+  test('fails for a request that was not recorded', async () => {
+    const provider = createReplayProvider(path.join(fixtures, 'recordings'));
+    await expect(
+      provider.analyze({
+        model: 'claude-sonnet-4-20250514',
+        system: 'Review the session.',
+        content: [{ type: 'text', text: 'No screenshots.' }],
+        maxTokens: 4096,
+      })
+    ).rejects.toThrow(AnalysisProviderError);
+  });
+
+  test('reports every problem with invalid output by JSON path', () => {
+    const parsed = parseAnalysisOutput({
+      text: '```json\n{"overallScore": "B", "screenshots": [{"screenshotId": "shot-home", "findings": [{"category": "layout"}]}]}\n```',
+    });
+
+    expect(parsed.output).toBeUndefined();
+    expect(parsed.issues).toEqual(
+      expect.arrayContaining([
+        { path: '$.executiveSummary', message: 'is required' },
+        { path: '$.screenshots[0].findings[0].severity', message: 'is required' },
+        { path: '$.screenshots[0].findings[0].category', message: expect.stringContaining('must be one of') },
+      ])
+    );
+    expect(parseAnalysisOutput({ text: 'Sorry, I cannot help with that.' }).issues).toEqual([
+      { path: '$', message: 'is not valid JSON' },
+    ]);
+  });
+});
+
+test.describe('batched analysis', () => {
+  test('splits screenshots by image count and token budget', () => {
+    const small = Array.from({ length: 5 }, (_, i) => screenshot(`small-${i}`, { width: 750, height: 100 }));
+    expect(planAnalysisBatches(small, { maxImages: 2, maxImageTokens: 20_000 }).map((b) => b.length)).toEqual([
+      2, 2, 1,
+    ]);
+
+    // Screenshots without a size are counted at the most an image can cost
+    const large = [screenshot('a'), screenshot('b'), screenshot('c', { width: 750, height: 1000 })];
+    expect(
+      planAnalysisBatches(large, { maxImages: 10, maxImageTokens: 3000 }).map((b) => b.map((ss) => ss.id))
+    ).toEqual([['a'], ['b', 'c']]);
+  });
+
+  test('tags combined findings with their batch', () => {
+    const finding = { category: 'ux' as const, severity: 'minor' as const, description: 'Small text' };
+    const combined = combineBatchOutputs(
+      [
+        { notes: 'First half', screenshots: [{ screenshotId: 'shot-home', findings: [finding] }] },
+        { notes: 'Second half', screenshots: [{ screenshotId: 'shot-pricing', findings: [finding] }] },
+      ],
+      {
+        executiveSummary: 'Summary',
+        overallScore: 'C',
+        scoreRationale: 'Rationale',
+        strengths: [],
+        areasForImprovement: [],
+        recommendations: [],
+      }
+    );
+
+    expect(combined.overallScore).toBe('C');
+    expect(combined.screenshots.map((entry) => [entry.screenshotId, entry.findings[0]?.batch])).toEqual([
+      ['shot-home', 1],
+      ['shot-pricing', 2],
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+import { expect, test } from '@playwright/test';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  AnalysisProviderError,
+  createAnthropicProvider,
+  createCachedProvider,
+  createOpenAIProvider,
+  type AnalysisProvider,
+  type AnalysisRequest,
+  type RetryInfo,
+} from '../src/index.js';
+
+const request: AnalysisRequest = {
+  model: 'claude-sonnet-4-20250514',
+  system: 'Review the session.',
+  content: [{ type: 'text', text: 'No screenshots.' }],
+  maxTokens: 1024,
+};
+
+interface Reply {
+  status: number;
+  body: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Start a server that answers each request with the next reply, repeating
+ * the last one.
+ */
+async function serve(replies: Reply[]): Promise<{ url: string; requests: () => number; close: () => void }> {
+  let count = 0;
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      const reply = replies[Math.min(count++, replies.length - 1)]!;
+      res.writeHead(reply.status, { 'content-type': 'application/json', ...reply.headers });
+      res.end(reply.body);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { url: `http://127.0.0.1:${port}`, requests: () => count, close: () => server.close() };
+}
+
+const anthropicReply = (text: string): Reply => ({
+  status: 200,
+  body: JSON.stringify({ model: 'claude-sonnet-4-20250514', content: [{ type: 'text', text }] }),
+});
+
+const errorReply = (status: number, message: string): Reply => ({
+  status,
+  body: JSON.stringify({ error: { message } }),
+  headers: { 'retry-after': '0' },
+});
+
+test.describe('retries', () => {
+  test('retries overloaded and rate-limited requests', async () => {
+    const server = await serve([errorReply(529, 'Overloaded'), errorReply(429, 'Rate limited'), anthropicReply('Fine')]);
+    const retries: RetryInfo[] = [];
+    try {
+      const provider = createAnthropicProvider({ baseUrl: server.url, onRetry: (info) => retries.push(info) });
+      const response = await provider.analyze(request);
+
+      expect(response.text).toBe('Fine');
+      expect(server.requests()).toBe(3);
+      expect(retries.map(({ attempt, status, delayMs }) => ({ attempt, status, delayMs }))).toEqual([
+        { attempt: 1, status: 529, delayMs: 0 },
+        { attempt: 2, status: 429, delayMs: 0 },
+      ]);
+    } finally {
+      server.close();
+    }
+  });
+
+  test('gives up after the allowed retries with a hint', async () => {
+    const server = await serve([errorReply(429, 'Rate limited')]);
+    try {
+      const provider = createAnthropicProvider({ baseUrl: server.url, retries: 1 });
+      const error = await provider.analyze(request).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AnalysisProviderError);
+      expect((error as AnalysisProviderError).message).toBe('Rate limited');
+      expect((error as AnalysisProviderError).options).toMatchObject({ status: 429, attempts: 2 });
+      expect((error as AnalysisProviderError).options.hint).toContain('gave up after 2 attempts');
+      expect(server.requests()).toBe(2);
+    } finally {
+      server.close();
+    }
+  });
+
+  test('does not retry other client errors', async () => {
+    const server = await serve([errorReply(401, 'Invalid API key')]);
+    try {
+      const provider = createAnthropicProvider({ baseUrl: server.url });
+      await expect(provider.analyze(request)).rejects.toThrow('Invalid API key');
+      expect(server.requests()).toBe(1);
+    } finally {
+      server.close();
+    }
+  });
+
+  test('reports network errors as provider errors once retries run out', async () => {
+    const server = await serve([]);
+    server.close();
+    const provider = createAnthropicProvider({ baseUrl: server.url, retries: 1 });
+    const error = await provider.analyze(request).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AnalysisProviderError);
+    expect((error as AnalysisProviderError).message).toContain('Network request failed');
+    expect((error as AnalysisProviderError).options).toMatchObject({ attempts: 2 });
+    expect((error as AnalysisProviderError).options.hint).toContain('gave up after 2 attempts');
+  });
+
+  test('reports a malformed reply as a provider error', async () => {
+    const server = await serve([{ status: 200, body: JSON.stringify({ choices: 'none' }) }]);
+    try {
+      const provider = createOpenAIProvider({ baseUrl: server.url });
+      await expect(provider.analyze(request)).rejects.toThrow(
+        new AnalysisProviderError('Unexpected API response format')
+      );
+    } finally {
+      server.close();
+    }
+  });
+});
+
+test.describe('cache', () => {
+  test('answers repeated requests from disk', async ({}, testInfo) => {
+    let calls = 0;
+    const provider: AnalysisProvider = {
+      name: 'Counting',
+      analyze: async () => ({ text: `Answer ${++calls}` }),
+    };
+    const dir = testInfo.outputPath('cache');
+
+    const cached = createCachedProvider(provider, dir);
+    expect(await cached.analyze(request)).toEqual({ text: 'Answer 1' });
+    expect(await cached.analyze(request)).toEqual({ text: 'Answer 1', cached: true });
+    expect(await cached.analyze({ ...request, maxTokens: 2048 })).toEqual({ text: 'Answer 2' });
+
+    // A refresh skips the cache but updates it
+    expect(await createCachedProvider(provider, dir, { refresh: true }).analyze(request)).toEqual({
+      text: 'Answer 3',
+    });
+    expect(await cached.analyze(request)).toEqual({ text: 'Answer 3', cached: true });
+    expect(calls).toBe(3);
+  });
+
+  test('keeps answers from different providers and endpoints apart', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('cache');
+    const answering = (name: string, endpoint: string): AnalysisProvider => ({
+      name,
+      endpoint,
+      analyze: async () => ({ text: `${name} at ${endpoint}` }),
+    });
+
+    const providers = [
+      answering('Anthropic', 'https://api.anthropic.com/v1/messages'),
+      answering('Anthropic', 'http://localhost:8080/v1/messages'),
+      answering('OpenAI-compatible', 'https://api.openai.com/v1/chat/completions'),
+    ];
+    for (const provider of providers) {
+      expect(await createCachedProvider(provider, dir).analyze(request)).toEqual({
+        text: `${provider.name} at ${provider.endpoint}`,
+      });
+    }
+  });
+
+  test('only stores accepted responses', async ({}, testInfo) => {
+    let calls = 0;
+    const provider: AnalysisProvider = {
+      name: 'Counting',
+      analyze: async () => ({ text: ++calls === 1 ? 'not json' : '{}' }),
+    };
+    const cached = createCachedProvider(provider, testInfo.outputPath('cache'), {
+      accept: (_request, response) => response.text.startsWith('{'),
+    });
+
+    expect(await cached.analyze(request)).toEqual({ text: 'not json' });
+    expect(await cached.analyze(request)).toEqual({ text: '{}' });
+    expect(await cached.analyze(request)).toEqual({ text: '{}', cached: true });
+  });
+});
@@ -0,0 +1,19 @@
+import { expect, test } from '@playwright/test';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { diffResults, formatDiffMarkdown, readResults } from '../src/index.js';
+
+const fixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'analysis');
+
+test.describe('formatDiffMarkdown()', () => {
+  test('keeps pipes and line breaks from breaking table rows', async () => {
+    const before = await readResults(path.join(fixtures, 'alex-observations.json'));
+    const after = structuredClone(before);
+    after.tasks[0]!.name = 'find pricing | plans\ncompare tiers';
+
+    const markdown = formatDiffMarkdown(diffResults(before, after), { before: 'main | v1', after: 'PR' });
+
+    expect(markdown).toContain('| Metric | main \\| v1 | PR | Change |');
+    expect(markdown).toContain('| find pricing \\| plans compare tiers | ✅ | ✅ | Still passing |');
+  });
+});
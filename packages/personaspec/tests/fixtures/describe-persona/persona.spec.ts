@@ -0,0 +1,11 @@
+import { describePersona, personaTemplates, personaTest as test } from '../../../src/index.js';
+
+describePersona(personaTemplates.firstTimeVisitor(), () => {
+  test('understand site purpose', async ({ collector }) => {
+    collector.observe('note', 'Listed without a browser', 'Fixture');
+  });
+});
+
+describePersona(personaTemplates.powerUser(), () => {
+  test('search for a feature', async () => {});
+});
@@ -0,0 +1,122 @@
+import { expect, test } from '@playwright/test';
+import {
+  mergeResults,
+  RESULTS_SCHEMA_VERSION,
+  type PersonaTestResults,
+  type Screenshot,
+  type TestRun,
+} from '../src/index.js';
+
+function part(worker: string, tests: TestRun[], clickCount: number): PersonaTestResults {
+  return {
+    schemaVersion: RESULTS_SCHEMA_VERSION,
+    persona: 'Alex - First-Time Visitor',
+    background: '',
+    goals: [],
+    behaviors: [],
+    worker,
+    session: {
+      startTime: tests[0]!.startTime,
+      pagesVisited: 1,
+      clickCount,
+      searchCount: 0,
+      backNavCount: 0,
+      consoleErrors: [],
+    },
+    tests,
+    tasks: tests.map((t) => ({
+      id: `task-${t.id}`,
+      name: t.title,
+      success: t.status === 'passed',
+      duration: 1000,
+      notes: '',
+      timestamp: t.startTime,
+      testId: t.id,
+    })),
+    observations: [],
+    screenshots: [],
+  };
+}
+
+function screenshot(id: string, viewportGroup: string, timestamp: string): Screenshot {
+  return {
+    id,
+    name: 'pricing',
+    context: '',
+    url: 'https://example.com/pricing',
+    pageTitle: 'Pricing',
+    filepath: `screenshots/${id}.png`,
+    viewportGroup,
+    timestamp,
+  };
+}
+
+const run = (title: string, startTime: string, status: TestRun['status'], retry?: number): TestRun => ({
+  id: `test-${title}`,
+  title,
+  startTime,
+  status,
+  ...(retry && { retry }),
+});
+
+test.describe('mergeResults()', () => {
+  test('leaves out a serial block retried in a new worker', () => {
+    const failed = part(
+      'worker0',
+      [run('home', '2025-03-01T10:00:00.000Z', 'passed'), run('pricing', '2025-03-01T10:01:00.000Z', 'failed')],
+      5
+    );
+    const retry = part(
+      'worker1',
+      [run('home', '2025-03-01T10:02:00.000Z', 'passed', 1), run('pricing', '2025-03-01T10:03:00.000Z', 'passed', 1)],
+      7
+    );
+
+    const merged = mergeResults([failed, retry]);
+
+    expect(merged.tasks.map((t) => [t.name, t.success, t.worker])).toEqual([
+      ['home', true, 'worker1'],
+      ['pricing', true, 'worker1'],
+    ]);
+    expect(merged.session.clickCount).toBe(7);
+    expect(merged.mergedFrom).toEqual(['worker1']);
+  });
+
+  test('drops only the retried test from a worker that ran others', () => {
+    const first = part(
+      'worker0',
+      [run('home', '2025-03-01T10:00:00.000Z', 'passed'), run('pricing', '2025-03-01T10:01:00.000Z', 'failed')],
+      5
+    );
+    const retry = part('worker1', [run('pricing', '2025-03-01T10:02:00.000Z', 'passed', 1)], 2);
+
+    const merged = mergeResults([first, retry]);
+
+    expect(merged.tests?.map((t) => [t.title, t.worker])).toEqual([
+      ['home', 'worker0'],
+      ['pricing', 'worker1'],
+    ]);
+    expect(merged.tasks.map((t) => [t.name, t.success])).toEqual([
+      ['home', true],
+      ['pricing', true],
+    ]);
+  });
+
+  test('keeps multi-viewport groups together when screenshot IDs clash', () => {
+    const grouped = (worker: string, hour: string) => ({
+      ...part(worker, [run('pricing', `2025-03-01T${hour}:00:00.000Z`, 'passed')], 0),
+      screenshots: ['shot-pricing', 'shot-pricing-2'].map((id) =>
+        screenshot(id, 'shot-pricing', `2025-03-01T${hour}:00:01.000Z`)
+      ),
+    });
+
+    const merged = mergeResults([grouped('worker0', '10'), grouped('worker1', '11')]);
+
+    expect(merged.screenshots.map((s) => [s.id, s.viewportGroup, s.worker])).toEqual([
+      ['shot-pricing', 'shot-pricing', 'worker0'],
+      ['shot-pricing-2', 'shot-pricing', 'worker0'],
+      ['shot-pricing-3', 'shot-pricing-3', 'worker1'],
+      ['shot-pricing-2-2', 'shot-pricing-3', 'worker1'],
+    ]);
+  });
+});
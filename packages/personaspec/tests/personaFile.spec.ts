@@ -0,0 +1,42 @@
+import { expect, test } from '@playwright/test';
+import { parsePersona } from '../src/index.js';
+
+const persona = (environment: string) => `name: Dana
+role: Commuter
+background: Checks the site on the train
+goals:
+  - Renew a subscription
+behaviors:
+  - Uses one hand
+${environment}`;
+
+test.describe('parsePersona()', () => {
+  test('rejects a device Playwright does not know', () => {
+    const { persona: parsed, issues } = parsePersona(
+      persona(`environment:
+  network: slow4g
+  device: iPhone 99
+`)
+    );
+
+    expect(parsed).toBeUndefined();
+    expect(issues).toEqual([{ line: 10, message: 'Unknown Playwright device "iPhone 99" in persona environment' }]);
+  });
+
+  test('points nested problems at the key they are about', () => {
+    const { issues } = parsePersona(
+      persona(`environment:
+  device: iPhone 13
+  zoom: -1
+frustrationDetectors:
+  idle:
+    afterMs: 0
+`)
+    );
+
+    expect(issues).toEqual([
+      { line: 10, message: 'Persona environment zoom must be a positive number (2 for 200%)' },
+      { line: 13, message: 'Frustration detector idle.afterMs must be a positive number' },
+    ]);
+  });
+});
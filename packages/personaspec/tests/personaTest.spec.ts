@@ -0,0 +1,23 @@
+import { expect, test } from '@playwright/test';
+import { execFile } from 'node:child_process';
+import { createRequire } from 'node:module';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+
+const fixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const playwrightCli = createRequire(import.meta.url).resolve('@playwright/test/cli');
+
+test('loads a spec that uses describePersona', async () => {
+  const { stdout } = await promisify(execFile)(process.execPath, [
+    playwrightCli,
+    'test',
+    '--list',
+    '--config',
+    path.join(fixtures, 'describe-persona', 'playwright.config.ts'),
+  ]);
+
+  expect(stdout).toContain('Alex - First-Time Visitor › understand site purpose');
+  expect(stdout).toContain('Sam - Power User › search for a feature');
+  expect(stdout).toContain('Total: 2 tests in 1 file');
+});
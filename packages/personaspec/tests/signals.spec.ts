@@ -0,0 +1,41 @@
+import { expect, test } from '@playwright/test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { createSignalDetector, resolveFrustrationDetectors, type DetectedSignal } from '../src/core/signals.js';
+
+function createDetector(): { detector: ReturnType<typeof createSignalDetector>; signals: DetectedSignal[] } {
+  const signals: DetectedSignal[] = [];
+  const detector = createSignalDetector(resolveFrustrationDetectors({ idle: { afterMs: 20 } }), (signal) =>
+    signals.push(signal)
+  );
+  return { detector, signals };
+}
+
+test.describe('idle signal', () => {
+  test('reports a pause still going on when flushed', async () => {
+    const { detector, signals } = createDetector();
+
+    detector.activity('https://example.com/pricing');
+    await sleep(30);
+    detector.flush();
+    // The clock is stopped, so the next activity doesn't count the pause again
+    await sleep(30);
+    detector.activity('https://example.com/pricing');
+
+    expect(signals).toMatchObject([
+      { type: 'confusion', location: 'https://example.com/pricing', evidence: { signal: 'idle' } },
+    ]);
+  });
+
+  test('reports nothing for a short pause or a stopped clock', async () => {
+    const { detector, signals } = createDetector();
+
+    detector.activity('https://example.com/');
+    detector.flush();
+    detector.activity('https://example.com/');
+    detector.stopClock();
+    await sleep(30);
+    detector.flush();
+
+    expect(signals).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { expect, test } from '@playwright/test';
+import { ObservationCollector, personaTemplates } from '../src/index.js';
+
+function createCollector(): ObservationCollector {
+  return new ObservationCollector({ outputDir: 'unused', persona: personaTemplates.firstTimeVisitor() });
+}
+
+test.describe('collector.task()', () => {
+  test('records a failed assertion and rethrows it', async () => {
+    const collector = createCollector();
+
+    await expect(
+      collector.task('find pricing', () => {
+        expect(1, 'prices shown').toBe(2);
+      })
+    ).rejects.toThrow('prices shown');
+
+    expect(collector.getTasks()).toMatchObject([
+      { name: 'find pricing', outcome: 'failed', success: false, failure: { reason: 'assertion' } },
+    ]);
+  });
+
+  test('only records the failure with rethrow: false', async () => {
+    const collector = createCollector();
+
+    const result = await collector.task(
+      'find pricing',
+      async (t) => {
+        await t.step('open menu', () => {
+          throw new Error('Menu button not found');
+        });
+      },
+      { rethrow: false }
+    );
+
+    expect(result).toMatchObject({
+      outcome: 'failed',
+      failure: { reason: 'error', message: 'Menu button not found', step: 'open menu' },
+    });
+  });
+
+  test('returns abandoned tasks without throwing', async () => {
+    const collector = createCollector();
+
+    const gaveUp = await collector.task('find pricing', (t) => t.abandon('Prices need an account'));
+    const outOfTime = await collector.task('compare plans', () => new Promise<void>(() => {}), { budget: 50 });
+
+    expect(gaveUp).toMatchObject({ outcome: 'abandoned', failure: { reason: 'gaveUp' } });
+    expect(outOfTime).toMatchObject({ outcome: 'abandoned', failure: { reason: 'timeBudget' } });
+  });
+});
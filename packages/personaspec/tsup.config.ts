@@ -20,6 +20,6 @@ export default defineConfig([
       js: '#!/usr/bin/env node',
     },
     sourcemap: true,
-    noExternal: ['commander'],
+    noExternal: ['commander', 'yaml'],
   },
 ]);